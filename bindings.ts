@@ -0,0 +1,48 @@
+/**
+ * Session bindings: the worktree each OpenCode session works in. A session
+ * is bound to a worktree when it switches to or creates one, or when it is
+ * spawned there, so its markers and tool output follow the worktree rather
+ * than the directory the session was started in.
+ */
+
+import type { WorktreeInfo } from "./worktrees"
+
+export interface SessionBinding {
+  path: string
+  branch: string
+  boundAt: number // ms since epoch
+  parentID?: string // session that spawned this one with worktrunk-spawn
+}
+
+// Session ID -> bound worktree
+export type SessionBindings = Record<string, SessionBinding>
+
+export const BINDINGS_FILE = "session-bindings.json"
+
+// Tell the agent where to work after a switch or create. OpenCode can't move
+// a session to another directory, so when the session still runs elsewhere
+// the agent has to use the worktree path explicitly.
+export const formatWorkingDirectory = (path: string, sessionDirectory: string): string => {
+  if (path === sessionDirectory) {
+    return `Working directory: ${path}`
+  }
+  return `Working directory: ${path}
+This session was started in ${sessionDirectory}. Work in the worktree from now on: use absolute paths under ${path} for file edits, and run commands there (cd ${path} or git -C ${path}).`
+}
+
+// Render the sessions a parent spawned, with each child worktree's marker
+export const formatSpawnedSessions = (bindings: SessionBindings, parentID: string, worktrees: WorktreeInfo[]): string => {
+  const children = Object.entries(bindings)
+    .filter(([, binding]) => binding.parentID === parentID)
+    .sort(([, a], [, b]) => a.boundAt - b.boundAt)
+  if (children.length === 0) {
+    return ""
+  }
+
+  const lines = children.map(([sessionID, binding]) => {
+    const info = worktrees.find(wt => wt.branch === binding.branch)
+    const state = info ? info.marker ?? "no marker" : "worktree removed"
+    return `- ${binding.branch} (session ${sessionID}): ${state}`
+  })
+  return `Spawned sessions:\n${lines.join("\n")}`
+}
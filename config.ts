@@ -0,0 +1,441 @@
+import { readFile } from "node:fs/promises"
+import { isAbsolute, join, normalize } from "node:path"
+import { type ContextConfig, DEFAULT_CONTEXT } from "./context"
+import { DEFAULT_ENV, type EnvConfig } from "./env"
+import { DEFAULT_LEASES, type LeaseConfig } from "./leases"
+import { checkRefFormat, DEFAULT_NAMING, type NamingConfig } from "./naming"
+import { DEFAULT_PROVISION, type ProvisionConfig } from "./provision"
+import { DEFAULT_TIMEOUTS, type CommandTimeouts } from "./runner"
+
+/**
+ * Plugin configuration, loaded from `.opencode/worktrunk.json`.
+ *
+ * Example:
+ * {
+ *   "markers": {
+ *     "working": "🤖",
+ *     "idle": "clear",
+ *     "blocked": "🔐",
+ *     "tests-failing": "❌"
+ *   },
+ *   "tools": { "edit": "editing", "bash": "testing", "webfetch": "working" },
+ *   "reaper": { "staleAfterMinutes": 10, "intervalSeconds": 60 },
+ *   "timeouts": { "default": 30, "wt merge": 900 },
+ *   "provision": {
+ *     "copy": [".env"],
+ *     "symlink": ["node_modules/.cache"],
+ *     "commands": ["bun install", { "run": "bun run build", "timeout": 900 }],
+ *     "timeout": 600
+ *   },
+ *   "naming": { "prefixes": ["feat/", "fix/"], "maxLength": 50, "lowercase": true },
+ *   "env": { "basePort": 3000, "blockSize": 10, "databaseUrl": "postgres://localhost:5432/app" },
+ *   "context": { "enabled": true, "maxLength": 1500 },
+ *   "leases": { "ttlMinutes": 30 }
+ * }
+ */
+
+// Marker value that clears the marker instead of setting one
+export const CLEAR_MARKER = "clear"
+
+export interface WorkTrunkConfig {
+  // State name -> marker (or "clear"). Includes the built-in session states
+  // plus any custom states such as "blocked" or "tests-failing".
+  markers: Record<string, string>
+  // Tool name -> state to show while that tool runs. A trailing "*" matches
+  // a prefix ("worktrunk-*"); unmapped tools leave the marker alone.
+  tools: Record<string, string>
+  // Stale-marker reaper: markers whose owner heartbeat is older than
+  // staleAfterMinutes are cleared by a sweep every intervalSeconds
+  reaper: {
+    staleAfterMinutes: number
+    intervalSeconds: number
+  }
+  // Command timeouts in seconds, keyed by command prefix ("wt merge")
+  timeouts: CommandTimeouts
+  // Setup run in each new worktree after it is created
+  provision: ProvisionConfig
+  // Policy for new branch names, on top of git's own rules
+  naming: NamingConfig
+  // Per-worktree ports and variables injected into bash commands
+  env: EnvConfig
+  // Worktree context block added to the system prompt and compaction
+  context: ContextConfig
+  // Worktree leases claimed by sessions
+  leases: LeaseConfig
+}
+
+// Built-in session states that the plugin sets automatically
+export const DEFAULT_MARKERS: Record<string, string> = {
+  working: "🤖",
+  thinking: "🤖",
+  // OpenCode is retrying a failed model request; the agent is still at it
+  retry: "🤖",
+  waiting: "💬",
+  idle: "💬",
+  created: "💬",
+  error: CLEAR_MARKER,
+  // Set on branches this plugin marked when OpenCode shuts down
+  ended: CLEAR_MARKER,
+  // Shown while tools run (see DEFAULT_TOOL_STATES) or permission is asked
+  editing: "✏️",
+  testing: "🧪",
+  permission: "🔐",
+}
+
+// Built-in states in which no agent is at work in the worktree: it waits on
+// a person, or the session is over. Every other state means an agent is busy.
+export const INACTIVE_STATES = ["waiting", "idle", "created", "error", "ended"]
+
+// Built-in tools that get their own marker while they run
+export const DEFAULT_TOOL_STATES: Record<string, string> = {
+  edit: "editing",
+  write: "editing",
+  patch: "editing",
+  multiedit: "editing",
+  bash: "testing",
+}
+
+export const CONFIG_PATH = join(".opencode", "worktrunk.json")
+
+export const DEFAULT_REAPER: WorkTrunkConfig["reaper"] = {
+  staleAfterMinutes: 10,
+  intervalSeconds: 60,
+}
+
+export const defaultConfig = (): WorkTrunkConfig => ({
+  markers: { ...DEFAULT_MARKERS },
+  tools: { ...DEFAULT_TOOL_STATES },
+  reaper: { ...DEFAULT_REAPER },
+  timeouts: { ...DEFAULT_TIMEOUTS },
+  provision: { ...DEFAULT_PROVISION, copy: [], symlink: [], commands: [] },
+  naming: { ...DEFAULT_NAMING, prefixes: [] },
+  env: { ...DEFAULT_ENV },
+  context: { ...DEFAULT_CONTEXT },
+  leases: { ...DEFAULT_LEASES },
+})
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const parseMarkers = (markers: unknown, config: WorkTrunkConfig, errors: string[]) => {
+  if (!isObject(markers)) {
+    errors.push(`"markers" must be an object mapping state names to markers`)
+    return
+  }
+  for (const [state, marker] of Object.entries(markers)) {
+    if (!/^[\w\-]+$/.test(state)) {
+      errors.push(`invalid state name '${state}': use letters, numbers, '_' or '-'`)
+    } else if (typeof marker !== "string" || marker.trim() === "") {
+      errors.push(`marker for state '${state}' must be a non-empty string (use "${CLEAR_MARKER}" to clear)`)
+    } else {
+      config.markers[state] = marker.trim()
+    }
+  }
+}
+
+// Tool states are checked against the markers, so markers must be parsed first
+const parseTools = (tools: unknown, config: WorkTrunkConfig, errors: string[]) => {
+  if (!isObject(tools)) {
+    errors.push(`"tools" must be an object mapping tool names to states`)
+    return
+  }
+  for (const [name, state] of Object.entries(tools)) {
+    if (typeof state !== "string" || !(state in config.markers)) {
+      const states = Object.keys(config.markers).join(", ")
+      errors.push(`state for tool '${name}' must be one of the configured states: ${states}`)
+    } else {
+      config.tools[name.trim()] = state
+    }
+  }
+}
+
+const parseReaper = (reaper: unknown, config: WorkTrunkConfig, errors: string[]) => {
+  if (!isObject(reaper)) {
+    errors.push(`"reaper" must be an object`)
+    return
+  }
+  for (const key of ["staleAfterMinutes", "intervalSeconds"] as const) {
+    const value = reaper[key]
+    if (value === undefined) {
+      continue
+    }
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+      errors.push(`"reaper.${key}" must be a positive number`)
+    } else {
+      config.reaper[key] = value
+    }
+  }
+}
+
+const parseTimeouts = (timeouts: unknown, config: WorkTrunkConfig, errors: string[]) => {
+  if (!isObject(timeouts)) {
+    errors.push(`"timeouts" must be an object mapping command prefixes to seconds`)
+    return
+  }
+  for (const [prefix, value] of Object.entries(timeouts)) {
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+      errors.push(`"timeouts.${prefix}" must be a positive number of seconds`)
+    } else {
+      config.timeouts[prefix.trim()] = value
+    }
+  }
+}
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0
+
+const parseProvision = (provision: unknown, config: WorkTrunkConfig, errors: string[]) => {
+  if (!isObject(provision)) {
+    errors.push(`"provision" must be an object`)
+    return
+  }
+  for (const key of ["copy", "symlink"] as const) {
+    const paths = provision[key]
+    if (paths === undefined) {
+      continue
+    }
+    if (!Array.isArray(paths)) {
+      errors.push(`"provision.${key}" must be an array of paths`)
+      continue
+    }
+    for (const path of paths) {
+      // Paths are relative to the worktree root and must stay inside it
+      if (typeof path !== "string" || path.trim() === "" || isAbsolute(path) || normalize(path).startsWith("..")) {
+        errors.push(`"provision.${key}" entry ${JSON.stringify(path)} must be a path inside the worktree`)
+      } else {
+        config.provision[key].push(normalize(path.trim()))
+      }
+    }
+  }
+
+  const commands = provision.commands
+  if (commands !== undefined && !Array.isArray(commands)) {
+    errors.push(`"provision.commands" must be an array of commands`)
+  } else if (commands !== undefined) {
+    for (const command of commands) {
+      if (typeof command === "string" && command.trim() !== "") {
+        config.provision.commands.push({ run: command.trim(), timeout: null })
+      } else if (isObject(command) && typeof command.run === "string" && command.run.trim() !== ""
+        && (command.timeout === undefined || isPositiveNumber(command.timeout))) {
+        config.provision.commands.push({ run: command.run.trim(), timeout: command.timeout ?? null })
+      } else {
+        errors.push(`"provision.commands" entry ${JSON.stringify(command)} must be a command string or {"run": string, "timeout": seconds}`)
+      }
+    }
+  }
+
+  if (provision.timeout !== undefined) {
+    if (isPositiveNumber(provision.timeout)) {
+      config.provision.timeout = provision.timeout
+    } else {
+      errors.push(`"provision.timeout" must be a positive number of seconds`)
+    }
+  }
+}
+
+const parseNaming = (naming: unknown, config: WorkTrunkConfig, errors: string[]) => {
+  if (!isObject(naming)) {
+    errors.push(`"naming" must be an object`)
+    return
+  }
+  if (naming.maxLength !== undefined) {
+    if (isPositiveNumber(naming.maxLength) && Number.isInteger(naming.maxLength)) {
+      config.naming.maxLength = naming.maxLength
+    } else {
+      errors.push(`"naming.maxLength" must be a positive whole number`)
+    }
+  }
+  if (naming.lowercase !== undefined) {
+    if (typeof naming.lowercase === "boolean") {
+      config.naming.lowercase = naming.lowercase
+    } else {
+      errors.push(`"naming.lowercase" must be true or false`)
+    }
+  }
+  if (naming.prefixes !== undefined) {
+    if (!Array.isArray(naming.prefixes)) {
+      errors.push(`"naming.prefixes" must be an array of prefixes`)
+      return
+    }
+    const maxLength = config.naming.maxLength
+    for (const prefix of naming.prefixes) {
+      // A prefix must leave room for a name and be valid in one
+      if (typeof prefix !== "string" || prefix === "" || checkRefFormat(`${prefix}x`).length > 0
+        || (maxLength !== null && prefix.length >= maxLength)) {
+        errors.push(`"naming.prefixes" entry ${JSON.stringify(prefix)} must be a valid start of a branch name, shorter than maxLength`)
+      } else {
+        config.naming.prefixes.push(prefix)
+      }
+    }
+  }
+}
+
+// An "env" section turns per-worktree environments on unless it says otherwise
+const parseEnv = (env: unknown, config: WorkTrunkConfig, errors: string[]) => {
+  if (!isObject(env)) {
+    errors.push(`"env" must be an object`)
+    return
+  }
+  config.env.enabled = true
+  for (const key of ["enabled", "composeProject"] as const) {
+    if (env[key] === undefined) {
+      continue
+    }
+    if (typeof env[key] === "boolean") {
+      config.env[key] = env[key]
+    } else {
+      errors.push(`"env.${key}" must be true or false`)
+    }
+  }
+  if (env.basePort !== undefined) {
+    if (Number.isInteger(env.basePort) && (env.basePort as number) >= 1024 && (env.basePort as number) <= 65000) {
+      config.env.basePort = env.basePort as number
+    } else {
+      errors.push(`"env.basePort" must be a port between 1024 and 65000`)
+    }
+  }
+  if (env.blockSize !== undefined) {
+    if (Number.isInteger(env.blockSize) && isPositiveNumber(env.blockSize) && env.blockSize <= 1000) {
+      config.env.blockSize = env.blockSize
+    } else {
+      errors.push(`"env.blockSize" must be a whole number of ports from 1 to 1000`)
+    }
+  }
+  if (env.databaseUrl !== undefined) {
+    if (typeof env.databaseUrl === "string" && env.databaseUrl.trim() !== "") {
+      config.env.databaseUrl = env.databaseUrl.trim()
+    } else {
+      errors.push(`"env.databaseUrl" must be a non-empty string`)
+    }
+  }
+}
+
+const parseContext = (context: unknown, config: WorkTrunkConfig, errors: string[]) => {
+  if (!isObject(context)) {
+    errors.push(`"context" must be an object`)
+    return
+  }
+  if (context.enabled !== undefined) {
+    if (typeof context.enabled === "boolean") {
+      config.context.enabled = context.enabled
+    } else {
+      errors.push(`"context.enabled" must be true or false`)
+    }
+  }
+  if (context.maxLength !== undefined) {
+    // Room for at least the branch and path
+    if (Number.isInteger(context.maxLength) && (context.maxLength as number) >= 300) {
+      config.context.maxLength = context.maxLength as number
+    } else {
+      errors.push(`"context.maxLength" must be a whole number of characters, at least 300`)
+    }
+  }
+}
+
+const parseLeases = (leases: unknown, config: WorkTrunkConfig, errors: string[]) => {
+  if (!isObject(leases)) {
+    errors.push(`"leases" must be an object`)
+    return
+  }
+  if (leases.ttlMinutes !== undefined) {
+    // Renewals happen at most once a minute
+    if (typeof leases.ttlMinutes === "number" && Number.isFinite(leases.ttlMinutes) && leases.ttlMinutes >= 2) {
+      config.leases.ttlMinutes = leases.ttlMinutes
+    } else {
+      errors.push(`"leases.ttlMinutes" must be a number of minutes, at least 2`)
+    }
+  }
+}
+
+// Validate raw config data. Invalid entries are reported and skipped, so a
+// single typo doesn't throw away the rest of the config.
+export const parseConfig = (raw: unknown): { config: WorkTrunkConfig; errors: string[] } => {
+  const config = defaultConfig()
+  const errors: string[] = []
+
+  if (!isObject(raw)) {
+    errors.push("config must be a JSON object")
+    return { config, errors }
+  }
+
+  if (raw.markers !== undefined) {
+    parseMarkers(raw.markers, config, errors)
+  }
+  if (raw.tools !== undefined) {
+    parseTools(raw.tools, config, errors)
+  }
+  if (raw.reaper !== undefined) {
+    parseReaper(raw.reaper, config, errors)
+  }
+  if (raw.timeouts !== undefined) {
+    parseTimeouts(raw.timeouts, config, errors)
+  }
+  if (raw.provision !== undefined) {
+    parseProvision(raw.provision, config, errors)
+  }
+  if (raw.naming !== undefined) {
+    parseNaming(raw.naming, config, errors)
+  }
+  if (raw.env !== undefined) {
+    parseEnv(raw.env, config, errors)
+  }
+  if (raw.context !== undefined) {
+    parseContext(raw.context, config, errors)
+  }
+  if (raw.leases !== undefined) {
+    parseLeases(raw.leases, config, errors)
+  }
+
+  return { config, errors }
+}
+
+// Load the plugin config for a directory. A missing file yields the defaults.
+export const loadConfig = async (dir: string): Promise<{ config: WorkTrunkConfig; errors: string[] }> => {
+  let text: string
+  try {
+    text = await readFile(join(dir, CONFIG_PATH), "utf8")
+  } catch {
+    return { config: defaultConfig(), errors: [] }
+  }
+
+  try {
+    return parseConfig(JSON.parse(text))
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error)
+    return { config: defaultConfig(), errors: [`invalid JSON: ${errorMsg}`] }
+  }
+}
+
+// Resolve a state name to the marker to set, or null to clear.
+// Unknown states clear the marker.
+export const resolveMarker = (config: WorkTrunkConfig, state: string): string | null => {
+  const marker = config.markers[state]
+  if (!marker || marker === CLEAR_MARKER) {
+    return null
+  }
+  return marker
+}
+
+// Markers that mean an agent is at work: those of every configured state
+// outside INACTIVE_STATES, custom states included
+export const resolveActiveMarkers = (config: WorkTrunkConfig): Set<string> => {
+  const markers = Object.keys(config.markers)
+    .filter(state => !INACTIVE_STATES.includes(state))
+    .map(state => resolveMarker(config, state))
+  return new Set(markers.filter((marker): marker is string => marker !== null))
+}
+
+// The state to show while a tool runs, or null if the tool isn't mapped.
+// Exact names win over "prefix*" patterns; the longest prefix wins.
+export const resolveToolState = (config: WorkTrunkConfig, tool: string): string | null => {
+  if (tool in config.tools) {
+    return config.tools[tool]
+  }
+  let match: string | null = null
+  for (const pattern of Object.keys(config.tools)) {
+    if (pattern.endsWith("*") && tool.startsWith(pattern.slice(0, -1)) && (match === null || pattern.length > match.length)) {
+      match = pattern
+    }
+  }
+  return match === null ? null : config.tools[match]
+}
@@ -0,0 +1,74 @@
+/**
+ * The worktree context block added to the agent's system prompt and to the
+ * compaction context, so the agent knows which worktree it is in without
+ * calling worktrunk-status, even after a long session is compacted.
+ */
+
+import type { GitOperation } from "./git"
+
+export interface ContextConfig {
+  enabled: boolean
+  maxLength: number // characters, including the tags
+}
+
+export const DEFAULT_CONTEXT: ContextConfig = {
+  enabled: true,
+  maxLength: 1500,
+}
+
+export interface ContextSibling {
+  branch: string | null
+  path: string
+  marker: string | null
+  dirty: boolean
+}
+
+export interface WorktreeContext {
+  branch: string | null // null for a detached HEAD
+  path: string
+  base: string | null // stack parent, else the default branch
+  stacked: boolean // base is a recorded stack parent
+  dirty: boolean | null // null when unknown
+  operation: GitOperation | null
+  siblings: ContextSibling[]
+}
+
+const OPEN_TAG = "<worktrunk-context>"
+const CLOSE_TAG = "</worktrunk-context>"
+
+const siblingLine = (sibling: ContextSibling): string =>
+  `- ${[sibling.branch ?? "(detached)", sibling.marker, sibling.dirty ? "(dirty)" : null, sibling.path].filter(Boolean).join(" ")}`
+
+// Render the context block. Siblings are dropped from the end to fit
+// `maxLength`; if that isn't enough, the block is cut and still closed.
+export const formatWorktreeContext = (context: WorktreeContext, maxLength: number): string => {
+  const state = context.operation
+    ? `${context.operation} in progress`
+    : context.dirty === null ? null : context.dirty ? "uncommitted changes" : "clean"
+  const head = [
+    OPEN_TAG,
+    `You are working in a WorkTrunk worktree. Run commands and edit files in this worktree's directory.`,
+    `Branch: ${context.branch ?? "(detached HEAD)"}`,
+    `Worktree: ${context.path}`,
+    context.base ? `Base: ${context.base}${context.stacked ? " (stack parent)" : " (default branch)"}` : null,
+    state ? `Working tree: ${state}` : null,
+  ].filter((line): line is string => line !== null)
+  const tail = ["Use the worktrunk-* tools to inspect, switch or create worktrees.", CLOSE_TAG]
+
+  const render = (siblings: string[], omitted: number) => {
+    const list = siblings.length + omitted > 0
+      ? ["Sibling worktrees:", ...siblings, ...(omitted > 0 ? [`- ... and ${omitted} more (see worktrunk-list)`] : [])]
+      : []
+    return [...head, ...list, ...tail].join("\n")
+  }
+
+  const lines = context.siblings.map(siblingLine)
+  for (let shown = lines.length; shown >= 0; shown--) {
+    const block = render(lines.slice(0, shown), lines.length - shown)
+    if (block.length <= maxLength) {
+      return block
+    }
+  }
+  // Even the bare block is too long (e.g. a very long path)
+  return `${render([], lines.length).slice(0, Math.max(0, maxLength - CLOSE_TAG.length - 1))}\n${CLOSE_TAG}`
+}
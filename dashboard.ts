@@ -0,0 +1,124 @@
+/**
+ * Marker state records and the `worktrunk-dashboard` view built on them.
+ *
+ * Every time the plugin writes a marker it records the state behind it and
+ * when that state began, so the dashboard can tell how long an agent has
+ * been working or waiting. States whose marker is "clear" (such as error)
+ * are recorded too, even though they leave no marker in `wt list`.
+ */
+
+import type { GitOperation } from "./git"
+import { formatAheadBehind, formatTable, type WorktreeInfo } from "./worktrees"
+
+export interface MarkerState {
+  state: string | null // session state, null for markers set by hand
+  marker: string | null // null when the state clears the marker
+  sessionID: string | null
+  since: number // ms since epoch when this state began
+}
+
+// Branch -> latest marker state
+export type MarkerStates = Record<string, MarkerState>
+
+export const MARKER_STATES_FILE = "marker-states.json"
+
+// Session states that wait on a person (or lead agent)
+export const ATTENTION_STATES = ["waiting", "idle", "permission", "error"]
+
+// Record a marker write. The start time only moves when the state or marker
+// actually changes, so repeated writes of the same state keep their age.
+// Returns whether it changed.
+export const recordMarkerState = (
+  states: MarkerStates,
+  branch: string,
+  state: string | null,
+  marker: string | null,
+  sessionID: string | null,
+  now: number,
+): boolean => {
+  const previous = states[branch]
+  const unchanged = previous !== undefined && previous.state === state && previous.marker === marker
+  states[branch] = { state, marker, sessionID, since: unchanged ? previous.since : now }
+  return !unchanged
+}
+
+export interface DashboardRow {
+  worktree: WorktreeInfo
+  state: MarkerState | null
+  sessionID: string | null // owning session, from the marker owner or state record
+  operation: GitOperation | null
+}
+
+// The state record only describes the worktree's marker if the two agree;
+// otherwise the marker was changed outside the plugin
+const currentState = (row: DashboardRow): MarkerState | null =>
+  row.state && row.state.marker === (row.worktree.marker ?? null) ? row.state : null
+
+// Why a worktree needs attention, or null if it doesn't. `attentionMarkers`
+// are the markers configured for ATTENTION_STATES, which catch markers set
+// without a state record.
+export const attentionReason = (row: DashboardRow, attentionMarkers: string[]): string | null => {
+  if (row.operation) {
+    return `${row.operation} in progress`
+  }
+  const state = currentState(row)
+  if (state?.state && ATTENTION_STATES.includes(state.state)) {
+    return state.state
+  }
+  if (row.worktree.marker && attentionMarkers.includes(row.worktree.marker)) {
+    return "waiting"
+  }
+  return null
+}
+
+// Compact duration: "45s", "12m", "3h 5m", "2d 4h"
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.max(0, Math.floor(ms / 1000))
+  if (seconds < 60) {
+    return `${seconds}s`
+  }
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) {
+    return `${minutes}m`
+  }
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) {
+    return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`
+  }
+  const days = Math.floor(hours / 24)
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`
+}
+
+const truncate = (text: string, max: number): string =>
+  text.length > max ? `${text.slice(0, max - 1)}…` : text
+
+// Render dashboard rows as an aligned table. Rows needing attention are
+// flagged with "!" and their reason.
+export const formatDashboard = (rows: DashboardRow[], attentionMarkers: string[], now: number): string => {
+  const header = ["", "Branch", "State", "For", "Session", "Last commit", "Dirty", "vs default", "CI", "Attention"]
+  const cells = rows.map(row => {
+    const { worktree } = row
+    const reason = attentionReason(row, attentionMarkers)
+    const current = currentState(row)
+    const label = [worktree.marker, current?.state].filter(Boolean).join(" ")
+    const commit = [
+      worktree.head?.slice(0, 8),
+      worktree.message ? truncate(worktree.message, 40) : null,
+      worktree.committedAt ? `(${formatDuration(now - worktree.committedAt)} ago)` : null,
+    ].filter(Boolean).join(" ")
+    return [
+      reason ? "!" : "",
+      worktree.branch ?? "(detached)",
+      label || "-",
+      current ? formatDuration(now - current.since) : "",
+      row.sessionID ?? "",
+      commit,
+      worktree.dirty ? "yes" : "",
+      formatAheadBehind(worktree.ahead, worktree.behind),
+      worktree.ci?.status ?? "",
+      reason ?? "",
+    ]
+  })
+
+  return formatTable(header, cells)
+}
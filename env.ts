@@ -0,0 +1,143 @@
+/**
+ * Per-worktree environments: each worktree gets its own block of ports and
+ * a matching set of variables (PORT, DATABASE_URL, COMPOSE_PROJECT_NAME), so
+ * dev servers in sibling worktrees don't collide. Assignments are kept in a
+ * registry in the git common dir and injected into bash commands.
+ */
+
+export interface EnvConfig {
+  enabled: boolean // set when .opencode/worktrunk.json has an "env" section
+  basePort: number // first port of the default branch's block
+  blockSize: number // ports per worktree
+  databaseUrl: string | null // database name gets a per-branch suffix
+  composeProject: boolean // set COMPOSE_PROJECT_NAME
+}
+
+export const DEFAULT_ENV: EnvConfig = {
+  enabled: false,
+  basePort: 3000,
+  blockSize: 10,
+  databaseUrl: null,
+  composeProject: true,
+}
+
+export interface EnvAssignment {
+  port: number // first port of the block
+  assignedAt: number // ms since epoch
+}
+
+// Branch -> port block
+export type EnvRegistry = Record<string, EnvAssignment>
+
+export const ENV_REGISTRY_FILE = "env-registry.json"
+
+// Most blocks handed out above basePort
+const MAX_BLOCKS = 100
+
+const blockCount = (config: EnvConfig): number =>
+  Math.min(MAX_BLOCKS, Math.floor((65536 - config.basePort) / config.blockSize))
+
+// FNV-1a, so a branch lands on the same block in every clone
+const hashBranch = (branch: string): number => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < branch.length; i++) {
+    hash ^= branch.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash
+}
+
+// Whether a block starting at `port` overlaps one assigned to another branch
+export const findOverlap = (registry: EnvRegistry, branch: string, port: number, config: EnvConfig): string | null => {
+  for (const [other, assignment] of Object.entries(registry)) {
+    if (other !== branch && port < assignment.port + config.blockSize && assignment.port < port + config.blockSize) {
+      return other
+    }
+  }
+  return null
+}
+
+// Pick a free block for a branch. The default branch keeps basePort; other
+// branches start at a block chosen by hashing the name and move up past
+// taken blocks. `after` skips to blocks past that port (to reassign).
+// Returns null when every block is taken.
+export const chooseBlock = (
+  registry: EnvRegistry,
+  branch: string,
+  config: EnvConfig,
+  isDefault: boolean,
+  after: number | null = null,
+): number | null => {
+  if (isDefault && after === null && !findOverlap(registry, branch, config.basePort, config)) {
+    return config.basePort
+  }
+  const blocks = blockCount(config)
+  if (blocks < 2) {
+    return null
+  }
+  // Block 0 is the default branch's
+  const first = after === null
+    ? 1 + (hashBranch(branch) % (blocks - 1))
+    : 1 + (Math.floor((after - config.basePort) / config.blockSize) % (blocks - 1))
+  for (let i = 0; i < blocks - 1; i++) {
+    const block = 1 + ((first - 1 + i) % (blocks - 1))
+    const port = config.basePort + block * config.blockSize
+    if (port !== after && !findOverlap(registry, branch, port, config)) {
+      return port
+    }
+  }
+  return null
+}
+
+// Branch name as an identifier: "feature/Login-2" -> "feature_login_2"
+const identifier = (branch: string, separator: string): string =>
+  branch.toLowerCase().replace(/[^a-z0-9]+/g, separator).replace(new RegExp(`^${separator}+|${separator}+$`, "g"), "")
+
+// Database URL with the branch appended to the database name
+// ("postgres://localhost/app" -> "postgres://localhost/app_feature_x")
+const suffixDatabase = (url: string, branch: string): string => {
+  const suffix = `_${identifier(branch, "_")}`
+  const match = url.match(/^([^?#]*\/)([^/?#]+)(.*)$/)
+  return match ? `${match[1]}${match[2]}${suffix}${match[3]}` : `${url}${suffix}`
+}
+
+// The variables for a branch's worktree. The default branch keeps the
+// configured database; `repo` names the compose project.
+export const worktreeEnv = (branch: string, port: number, config: EnvConfig, repo: string, isDefault: boolean): Record<string, string> => {
+  const vars: Record<string, string> = {
+    PORT: String(port),
+    WORKTRUNK_PORTS: `${port}-${port + config.blockSize - 1}`,
+  }
+  if (config.databaseUrl) {
+    vars.DATABASE_URL = isDefault ? config.databaseUrl : suffixDatabase(config.databaseUrl, branch)
+  }
+  if (config.composeProject) {
+    const project = identifier(repo, "-")
+    vars.COMPOSE_PROJECT_NAME = isDefault ? project : `${project}-${identifier(branch, "-")}`
+  }
+  return vars
+}
+
+const shellQuote = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`
+
+// Prefix a shell command with exports of `vars`
+export const withExports = (command: string, vars: Record<string, string>): string => {
+  const exports = Object.entries(vars).map(([name, value]) => `${name}=${shellQuote(value)}`).join(" ")
+  return `export ${exports}\n${command}`
+}
+
+// Render one branch's variables for worktrunk-env
+export const formatEnv = (branch: string, vars: Record<string, string>): string =>
+  `Environment for ${branch} (ports ${vars.WORKTRUNK_PORTS}):\n${Object.entries(vars).map(([name, value]) => `${name}=${value}`).join("\n")}`
+
+// Render the registry as a table sorted by port
+export const formatRegistry = (registry: EnvRegistry, config: EnvConfig): string => {
+  const entries = Object.entries(registry).sort(([, a], [, b]) => a.port - b.port)
+  if (entries.length === 0) {
+    return "No ports assigned yet."
+  }
+  const header = ["Branch", "Ports"]
+  const rows = entries.map(([branch, { port }]) => [branch, `${port}-${port + config.blockSize - 1}`])
+  const width = Math.max(...[header, ...rows].map(row => row[0].length))
+  return [header, ...rows].map(([branch, ports]) => `${branch.padEnd(width)}  ${ports}`).join("\n")
+}
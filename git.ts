@@ -0,0 +1,172 @@
+import { readFile, stat } from "node:fs/promises"
+import { dirname, join, resolve } from "node:path"
+
+/**
+ * Helpers for locating git metadata and interpreting git / WorkTrunk
+ * command output.
+ */
+
+// Find the HEAD file of the worktree containing `dir`. Linked worktrees have
+// a `.git` file ("gitdir: <path>") pointing at their admin directory instead
+// of a `.git` directory. Returns null outside a git worktree.
+export const findHeadFile = async (dir: string): Promise<string | null> => {
+  let current = resolve(dir)
+  while (true) {
+    const dotGit = join(current, ".git")
+    const info = await stat(dotGit).catch(() => null)
+    if (info) {
+      try {
+        let gitDir = dotGit
+        if (!info.isDirectory()) {
+          const match = (await readFile(dotGit, "utf8")).match(/^gitdir:\s*(.+)$/m)
+          if (!match) {
+            return null
+          }
+          gitDir = resolve(current, match[1].trim())
+        }
+        const headFile = join(gitDir, "HEAD")
+        await stat(headFile)
+        return headFile
+      } catch {
+        return null
+      }
+    }
+    const parent = dirname(current)
+    if (parent === current) {
+      return null
+    }
+    current = parent
+  }
+}
+
+// Collect the full output of a failed shell command. Bun's ShellError keeps
+// stdout/stderr as Buffers next to a generic "Failed with exit code" message.
+export const getErrorOutput = (error: unknown): string => {
+  const parts: string[] = [error instanceof Error ? error.message : String(error)]
+  const e = error as any
+  for (const stream of [e?.stderr, e?.stdout]) {
+    const text = stream?.toString?.().trim()
+    if (text) {
+      parts.push(text)
+    }
+  }
+  return parts.join("\n")
+}
+
+// Extract the files git reports as conflicted, e.g.
+// "CONFLICT (content): Merge conflict in src/index.ts"
+// "CONFLICT (modify/delete): src/old.ts deleted in HEAD and modified in ..."
+export const parseConflictFiles = (output: string): string[] => {
+  const files = new Set<string>()
+  for (const line of output.split("\n")) {
+    const match = line.match(/^CONFLICT \(([^)]+)\): (.*)$/)
+    if (!match) {
+      continue
+    }
+    const inFile = match[2].match(/Merge conflict in (.+)$/)
+    if (inFile) {
+      files.add(inFile[1].trim())
+    } else {
+      files.add(match[2].split(" ")[0])
+    }
+  }
+  return [...files]
+}
+
+// Whether command output indicates a merge/rebase conflict
+export const isConflictOutput = (output: string): boolean =>
+  /CONFLICT|could not apply|Merge conflict|conflicts? (?:in|detected)/i.test(output)
+
+export interface FileChange {
+  path: string
+  added: number | null // null for binary files
+  deleted: number | null
+}
+
+// Parse `git diff --numstat` output ("added<TAB>deleted<TAB>path")
+export const parseNumstat = (output: string): FileChange[] => {
+  const changes: FileChange[] = []
+  for (const line of output.split("\n")) {
+    const match = line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/)
+    if (match) {
+      changes.push({
+        path: match[3],
+        added: match[1] === "-" ? null : Number(match[1]),
+        deleted: match[2] === "-" ? null : Number(match[2]),
+      })
+    }
+  }
+  return changes
+}
+
+// Cap text at maxBytes, cutting at a line boundary
+export const truncateText = (text: string, maxBytes: number): { text: string; truncated: boolean } => {
+  if (Buffer.byteLength(text, "utf8") <= maxBytes) {
+    return { text, truncated: false }
+  }
+  const cut = Buffer.from(text, "utf8").subarray(0, maxBytes).toString("utf8")
+  const lastNewline = cut.lastIndexOf("\n")
+  return { text: lastNewline > 0 ? cut.slice(0, lastNewline) : cut, truncated: true }
+}
+
+export type GitOperation = "rebase" | "merge" | "cherry-pick" | "bisect"
+
+// What a worktree's HEAD points at
+export interface HeadState {
+  branch: string | null // checked-out branch, or the branch a rebase/bisect is operating on
+  detached: boolean
+  sha: string | null // short commit when detached
+  operation: GitOperation | null // operation in progress, if any
+}
+
+const OPERATION_LABELS: Record<GitOperation, string> = {
+  rebase: "Rebase",
+  merge: "Merge",
+  "cherry-pick": "Cherry-pick",
+  bisect: "Bisect",
+}
+
+const OPERATION_HINTS: Record<GitOperation, string> = {
+  rebase: "finish with 'git rebase --continue' or give up with 'git rebase --abort'",
+  merge: "finish with 'git commit' or give up with 'git merge --abort'",
+  "cherry-pick": "finish with 'git cherry-pick --continue' or give up with 'git cherry-pick --abort'",
+  bisect: "finish with 'git bisect reset'",
+}
+
+// Detect an operation in progress from a worktree's git dir (the directory
+// holding its HEAD), plus the branch it operates on if git recorded one.
+// Rebases detach HEAD and keep the branch in rebase-*/head-name; bisect keeps
+// the starting branch (or commit) in BISECT_START.
+export const readGitOperation = async (gitDir: string): Promise<{ operation: GitOperation | null; branch: string | null }> => {
+  const read = (name: string) => readFile(join(gitDir, name), "utf8").then((text) => text.trim(), () => null)
+  for (const rebaseDir of ["rebase-merge", "rebase-apply"]) {
+    const headName = await read(join(rebaseDir, "head-name"))
+    if (headName !== null) {
+      // "detached HEAD" when the rebase started without a branch
+      return { operation: "rebase", branch: headName.startsWith("refs/heads/") ? headName.slice("refs/heads/".length) : null }
+    }
+  }
+  if ((await read("MERGE_HEAD")) !== null) {
+    return { operation: "merge", branch: null }
+  }
+  if ((await read("CHERRY_PICK_HEAD")) !== null) {
+    return { operation: "cherry-pick", branch: null }
+  }
+  const bisectStart = await read("BISECT_START")
+  if (bisectStart !== null) {
+    return { operation: "bisect", branch: bisectStart && !/^[0-9a-f]{7,64}$/.test(bisectStart) ? bisectStart : null }
+  }
+  return { operation: null, branch: null }
+}
+
+// One-line summary, e.g. "Rebase in progress on 'feature/x' (HEAD detached at abc1234)"
+export const describeHeadState = (state: HeadState): string => {
+  const detached = `HEAD detached at ${state.sha ?? "an unknown commit"}`
+  if (state.operation) {
+    const on = state.branch ? ` on '${state.branch}'` : ""
+    return `${OPERATION_LABELS[state.operation]} in progress${on}${state.detached ? ` (${detached})` : ""}`
+  }
+  return state.branch ? `On branch '${state.branch}'` : detached
+}
+
+export const describeOperationHint = (operation: GitOperation): string => OPERATION_HINTS[operation]
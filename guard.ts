@@ -0,0 +1,89 @@
+import type { MarkerOwner } from "./owners"
+
+/**
+ * Safety checks before a tool removes or leaves a worktree. Collects what
+ * could be lost or disturbed (local changes, unpushed commits, a marker held
+ * by another session) and formats the refusal shown instead.
+ */
+
+export type RiskKind = "uncommitted" | "untracked" | "unpushed" | "active-marker"
+
+export interface WorktreeRisk {
+  kind: RiskKind
+  detail: string
+}
+
+// How local changes are saved before proceeding
+export type SaveMode = "stash" | "commit"
+
+// Local changes can be saved with a stash or WIP commit; other risks need force
+export const isLocalChange = (risk: WorktreeRisk): boolean =>
+  risk.kind === "uncommitted" || risk.kind === "untracked"
+
+// Split `git status --porcelain` output into changed and untracked paths.
+// Lines that aren't porcelain entries are ignored.
+export const parsePorcelainStatus = (output: string): { changed: string[]; untracked: string[] } => {
+  const changed: string[] = []
+  const untracked: string[] = []
+  for (const line of output.split("\n")) {
+    const match = line.match(/^([ MTADRCU?!]{2}) (.+)$/)
+    if (!match || match[1] === "!!") {
+      continue
+    }
+    // Renames are reported as "old -> new"
+    const path = match[2].split(" -> ").pop()!
+    if (match[1] === "??") {
+      untracked.push(path)
+    } else {
+      changed.push(path)
+    }
+  }
+  return { changed, untracked }
+}
+
+const listPaths = (paths: string[], limit = 5): string =>
+  paths.length > limit ? `${paths.slice(0, limit).join(", ")}, ... (${paths.length - limit} more)` : paths.join(", ")
+
+// Risks from a worktree's status and unpushed commit count
+export const localRisks = (status: { changed: string[]; untracked: string[] }, unpushed: number): WorktreeRisk[] => {
+  const risks: WorktreeRisk[] = []
+  if (status.changed.length > 0) {
+    risks.push({ kind: "uncommitted", detail: `${status.changed.length} uncommitted change(s): ${listPaths(status.changed)}` })
+  }
+  if (status.untracked.length > 0) {
+    risks.push({ kind: "untracked", detail: `${status.untracked.length} untracked file(s): ${listPaths(status.untracked)}` })
+  }
+  if (unpushed > 0) {
+    risks.push({ kind: "unpushed", detail: `${unpushed} unpushed commit(s)` })
+  }
+  return risks
+}
+
+// Risk from a marker whose owner is a different session (or another
+// OpenCode process). Pass only live owners; stale ones can be reaped.
+export const markerRisk = (branch: string, owner: MarkerOwner | undefined, sessionID?: string): WorktreeRisk | null => {
+  if (!owner) {
+    return null
+  }
+  const otherSession = owner.sessionID ? owner.sessionID !== sessionID : owner.pid !== process.pid
+  if (!otherSession) {
+    return null
+  }
+  const holder = owner.sessionID ? `session ${owner.sessionID}` : `process ${owner.pid}`
+  return { kind: "active-marker", detail: `'${branch}' has marker ${owner.marker} from another session (${holder})` }
+}
+
+// Refusal message listing the risks and how to proceed. `suggest` renders
+// the tool call with extra arguments, e.g. `force: true`.
+export const formatRefusal = (action: string, risks: WorktreeRisk[], suggest: (extra: string) => string): string => {
+  const options: string[] = []
+  if (risks.some(isLocalChange)) {
+    options.push(`Stash the changes first: ${suggest(`saveChanges: "stash"`)}`)
+    options.push(`Commit them as WIP: ${suggest(`saveChanges: "commit"`)}`)
+  }
+  if (risks.some(risk => risk.kind === "unpushed")) {
+    options.push("Push the branch first: git push")
+  }
+  options.push(`Proceed anyway: ${suggest("force: true")}`)
+  return `Error: Refusing to ${action}:\n${risks.map(risk => `- ${risk.detail}`).join("\n")}\n\nOptions:\n${options.map(option => `- ${option}`).join("\n")}`
+}
@@ -0,0 +1,109 @@
+/**
+ * Marker history: an append-only log of every marker transition, and the
+ * time-in-state accounting behind `worktrunk-activity`.
+ */
+
+import { formatDuration } from "./dashboard"
+import { formatTable } from "./worktrees"
+
+export interface MarkerTransition {
+  time: number // ms since epoch
+  branch: string
+  state: string | null // session state, null for markers set by hand
+  marker: string | null // null when the marker was cleared
+  sessionID: string | null
+}
+
+export const HISTORY_FILE = "marker-history.jsonl"
+
+// Time-in-state buckets. Custom states (e.g. "blocked") count as other.
+export type ActivityBucket = "working" | "waiting" | "idle" | "other"
+
+const BUCKETS: Record<string, ActivityBucket> = {
+  working: "working",
+  thinking: "working",
+  editing: "working",
+  testing: "working",
+  waiting: "waiting", // waiting on a person: the session finished its turn
+  idle: "waiting",
+  created: "waiting",
+  permission: "waiting",
+  error: "idle", // nothing is running on the branch
+  ended: "idle",
+}
+
+// Which bucket a transition's state falls into. Cleared markers without a
+// state (manual clears) mean nothing is running.
+export const bucketOf = (transition: MarkerTransition): ActivityBucket => {
+  if (transition.state === null) {
+    return transition.marker === null ? "idle" : "other"
+  }
+  return BUCKETS[transition.state] ?? "other"
+}
+
+export type BranchActivity = Record<ActivityBucket, number> & { branch: string }
+
+// Sum up how long each branch spent in each bucket within [from, to]. A
+// branch's state at `from` is its last transition before the window; the
+// latest state lasts until `to`.
+export const summarizeActivity = (transitions: MarkerTransition[], from: number, to: number): BranchActivity[] => {
+  const byBranch = new Map<string, MarkerTransition[]>()
+  for (const transition of transitions) {
+    if (transition.time > to) {
+      continue
+    }
+    const list = byBranch.get(transition.branch) ?? []
+    list.push(transition)
+    byBranch.set(transition.branch, list)
+  }
+
+  const result: BranchActivity[] = []
+  for (const [branch, list] of byBranch) {
+    list.sort((a, b) => a.time - b.time)
+    const activity: BranchActivity = { branch, working: 0, waiting: 0, idle: 0, other: 0 }
+    list.forEach((transition, i) => {
+      const start = Math.max(transition.time, from)
+      const end = Math.min(list[i + 1]?.time ?? to, to)
+      if (end > start) {
+        activity[bucketOf(transition)] += end - start
+      }
+    })
+    if (activity.working + activity.waiting + activity.idle + activity.other > 0) {
+      result.push(activity)
+    }
+  }
+  return result.sort((a, b) => a.branch.localeCompare(b.branch))
+}
+
+// Share of active (working + waiting) time spent waiting on input
+const waitingShare = (activity: BranchActivity): string => {
+  const active = activity.working + activity.waiting
+  return active > 0 ? `${Math.round((activity.waiting / active) * 100)}%` : ""
+}
+
+// Render activity as an aligned table with a totals row
+export const formatActivity = (activities: BranchActivity[]): string => {
+  if (activities.length === 0) {
+    return "No marker activity in this window."
+  }
+
+  const total: BranchActivity = { branch: "Total", working: 0, waiting: 0, idle: 0, other: 0 }
+  for (const activity of activities) {
+    total.working += activity.working
+    total.waiting += activity.waiting
+    total.idle += activity.idle
+    total.other += activity.other
+  }
+
+  const header = ["Branch", "Working", "Waiting", "Idle", "Other", "Waiting share"]
+  const format = (ms: number) => (ms > 0 ? formatDuration(ms) : "-")
+  const rows = [...activities, total].map(activity => [
+    activity.branch,
+    format(activity.working),
+    format(activity.waiting),
+    format(activity.idle),
+    format(activity.other),
+    waitingShare(activity),
+  ])
+  return formatTable(header, rows)
+}
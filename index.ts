@@ -1,4 +1,25 @@
 import { type Plugin, tool } from "@opencode-ai/plugin"
+import { spawnSync } from "node:child_process"
+import { existsSync, watch, type FSWatcher } from "node:fs"
+import { basename, dirname, isAbsolute } from "node:path"
+import { BINDINGS_FILE, formatSpawnedSessions, formatWorkingDirectory, type SessionBindings } from "./bindings"
+import { formatWorktreeContext } from "./context"
+import { ATTENTION_STATES, attentionReason, type DashboardRow, formatDashboard, formatDuration, MARKER_STATES_FILE, type MarkerStates, recordMarkerState } from "./dashboard"
+import { chooseBlock, ENV_REGISTRY_FILE, type EnvRegistry, findOverlap, formatEnv, formatRegistry, withExports, worktreeEnv } from "./env"
+import { formatActivity, HISTORY_FILE, type MarkerTransition, summarizeActivity } from "./history"
+import { CONFIG_PATH, loadConfig, resolveActiveMarkers, resolveMarker, resolveToolState } from "./config"
+import { describeHeadState, describeOperationHint, findHeadFile, type GitOperation, type HeadState, parseConflictFiles, parseNumstat, readGitOperation, truncateText } from "./git"
+import { formatRefusal, isLocalChange, localRisks, markerRisk, parsePorcelainStatus, type SaveMode, type WorktreeRisk } from "./guard"
+import { describeHolder, formatLeaseRefusal, type Lease, type LeaseClaim, type Leases, LEASES_FILE, otherHolder } from "./leases"
+import { checkBranchName, generateBranchName, parseBranchRefs } from "./naming"
+import { findStaleMarkers, OWNERS_FILE, type MarkerOwners, type StaleMarker } from "./owners"
+import { formatProvisionReport, hasProvisioning, provisionWorktree } from "./provision"
+import { formatPruneReport, parseGoneBranches, pruneReasons, type PruneResult } from "./prune"
+import { CommandError, CommandErrorKind, type CommandResult, createRunner, formatCommandError, isTimeout, NOT_INSTALLED_MESSAGE } from "./runner"
+import { formatStackTree, getAncestors, getDescendants, reparentChildren, STACK_BASES_FILE, STACK_FILE, type StackBases, type StackGraph } from "./stack"
+import { appendJsonLine, getStatePath, readJson, readJsonLines, updateJson } from "./store"
+import { chooseSyncAction, formatSyncTable, type SyncResult, type SyncStrategy } from "./sync"
+import { formatWorktreeDetails, formatWorktreeTable, parseWorktreeList, type WorktreeInfo, type WorktreeListResult } from "./worktrees"
 
 /**
  * OpenCode plugin for WorkTrunk integration
@@ -7,482 +28,3013 @@ import { type Plugin, tool } from "@opencode-ai/plugin"
  * - 🤖 when Claude is working
  * - 💬 when Claude is waiting for input
  * 
+ * Markers are configurable per repo through `.opencode/worktrunk.json`.
  * Also provides custom tools for WorkTrunk operations.
  */
+
+// Per-session tracking state. Each session is mapped to the worktree directory
+// it runs in, so markers land on the branch that session is actually working on.
+interface SessionState {
+  directory: string // worktree the session works in
+  startDirectory: string // directory OpenCode started the session in
+  bound: boolean // directory comes from a session binding (switch/create)
+  branch: string | null
+  statusTimer: ReturnType<typeof setTimeout> | null
+  pendingState: string | null // state waiting on the debounce timer
+  runningTools: Map<string, string> // call ID -> state of mapped tools that are running
+  permissions: Set<string> // IDs of permission requests waiting for a reply
+  lastState: string | null // last state sent to updateStatus
+  resumeState: string | null // state to return to once permissions are answered
+}
+
+// What tools that rebase or merge in other worktrees check first: the
+// markers that mean an agent is busy, who owns them, and the leases
+interface BusyCheck {
+  activeMarkers: Set<string>
+  owners: MarkerOwners
+  leases: Leases
+  sessionID?: string // the caller's own marker and lease don't count
+}
+
+// How long a session's worktree context block is reused before it's rebuilt
+const CONTEXT_TTL_MS = 15000
+
+// How often an active session's leases are pushed back, at most
+const LEASE_RENEW_MS = 60000
+
+// Session events whose `info` is the session itself
+const SESSION_INFO_EVENTS = ["session.created", "session.updated", "session.deleted"]
+
+// Extract the session ID from an OpenCode event, if it carries one. The
+// `info` of other events (message.updated) is a message with a sessionID.
+const getEventSessionID = (event: unknown): string | undefined => {
+  const e = event as any
+  const info = e?.properties?.info
+  const infoSessionID = SESSION_INFO_EVENTS.includes(e?.type) ? info?.id : info?.sessionID
+  return e?.properties?.sessionID ?? infoSessionID ?? e?.sessionID ?? undefined
+}
+
+// A live plugin instance's shutdown, run when the process is about to exit
+// so markers don't outlive OpenCode
+interface ActivePlugin {
+  dispose: () => Promise<void> // full shutdown, when the event loop has time for it
+  exit: () => void // synchronous marker reset, when it doesn't
+}
+
+const activePlugins = new Set<ActivePlugin>()
+let exitHookInstalled = false
+
+// Signals OpenCode is usually stopped with
+const EXIT_SIGNALS = ["SIGINT", "SIGTERM", "SIGHUP"] as const
+
+const installExitHook = () => {
+  if (exitHookInstalled) {
+    return
+  }
+  exitHookInstalled = true
+  // The event loop ran dry: there's time for the full shutdown
+  process.once("beforeExit", () => {
+    for (const active of [...activePlugins]) {
+      active.dispose().catch(() => {})
+    }
+  })
+  // process.exit() and signals end the process before async work runs
+  process.once("exit", () => {
+    for (const active of [...activePlugins]) {
+      active.exit()
+    }
+  })
+  for (const signal of EXIT_SIGNALS) {
+    process.once(signal, () => {
+      for (const active of [...activePlugins]) {
+        active.exit()
+      }
+      // Listening took away the signal's default of ending the process;
+      // raise it again unless someone else handles it
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal)
+      }
+    })
+  }
+}
+
 const plugin: Plugin = async ({ project, client, $, directory, worktree }) => {
   let currentBranch: string | null = null
   let statusTimer: ReturnType<typeof setTimeout> | null = null
+  let pendingState: string | null = null
   let branchCheckInterval: ReturnType<typeof setInterval> | null = null
+  let headWatcher: FSWatcher | null = null
+  let reaperInterval: ReturnType<typeof setInterval> | null = null
   let lastKnownBranch: string | null = null
 
+  // Session ID -> session state (worktree directory, branch, debounce timer)
+  const sessions = new Map<string, SessionState>()
+
+  // Branches this plugin instance has put a marker on, reset on shutdown
+  const markedBranches = new Set<string>()
+  let disposed = false
+
+  // Load the state -> marker mapping; invalid entries fall back to defaults
+  const { config, errors: configErrors } = await loadConfig(directory)
+  for (const configError of configErrors) {
+    await client.app.log({
+      body: {
+        service: "opencode-worktrunk",
+        level: "warn",
+        message: `Invalid WorkTrunk plugin config (${CONFIG_PATH}): ${configError}`,
+      },
+    })
+  }
+
+  // All wt/git commands go through the runner for timeouts and typed errors
+  const run = createRunner($, () => config.timeouts)
+
   // Performance optimization: Cache WorkTrunk installation check
   let workTrunkInstalledCache: boolean | null = null
   let workTrunkCheckTime: number = 0
   const WORKTRUNK_CHECK_CACHE_TTL = 60000 // 1 minute cache
 
-  // Check if WorkTrunk is installed (with caching)
-  const isWorkTrunkInstalled = async (): Promise<boolean> => {
+  // Check that WorkTrunk can run (with caching). Returns null if it can,
+  // otherwise the error message for the tool to return.
+  const checkWorkTrunk = async (): Promise<string | null> => {
     const now = Date.now()
     // Use cached value if still valid
     if (workTrunkInstalledCache !== null && (now - workTrunkCheckTime) < WORKTRUNK_CHECK_CACHE_TTL) {
-      return workTrunkInstalledCache
+      return workTrunkInstalledCache ? null : NOT_INSTALLED_MESSAGE
     }
     
     try {
-      await $`wt --version`.quiet()
+      await run`wt --version`
       workTrunkInstalledCache = true
       workTrunkCheckTime = now
-      return true
-    } catch {
-      workTrunkInstalledCache = false
-      workTrunkCheckTime = now
-      return false
+      return null
+    } catch (error) {
+      // Only a missing binary is cached; other failures may be transient
+      if (error instanceof CommandError && error.kind === CommandErrorKind.NotInstalled) {
+        workTrunkInstalledCache = false
+        workTrunkCheckTime = now
+      }
+      return formatCommandError(error, { action: "running 'wt --version'" })
     }
   }
 
-  // Performance optimization: Cache branch information
-  let branchCache: { branch: string | null; timestamp: number } | null = null
+  // Performance optimization: Cache HEAD state per worktree directory
+  const branchCache = new Map<string, { state: HeadState | null; timestamp: number }>()
   const BRANCH_CACHE_TTL = 1000 // 1 second cache for branch info
 
-  // Detect current git branch (with caching)
-  const getCurrentBranch = async (forceRefresh: boolean = false): Promise<string | null> => {
+  // Detect what a worktree directory's HEAD points at (with caching): a
+  // branch, a detached commit, or a rebase/merge/cherry-pick/bisect in
+  // progress. Null outside a git repository.
+  const getHeadState = async (forceRefresh: boolean = false, dir: string = directory): Promise<HeadState | null> => {
     const now = Date.now()
     
     // Use cached value if still valid and not forcing refresh
-    if (!forceRefresh && branchCache && (now - branchCache.timestamp) < BRANCH_CACHE_TTL) {
-      return branchCache.branch
+    const cached = branchCache.get(dir)
+    if (!forceRefresh && cached && (now - cached.timestamp) < BRANCH_CACHE_TTL) {
+      return cached.state
     }
     
+    let state: HeadState | null = null
     try {
-      const result = await $`git rev-parse --abbrev-ref HEAD`.quiet()
-      const branch = result.stdout.toString().trim() || null
-      branchCache = { branch, timestamp: now }
-      return branch
+      const name = (await run`git -C ${dir} rev-parse --abbrev-ref HEAD`).stdout.trim()
+      if (name) {
+        const headFile = await findHeadFile(dir)
+        const { operation, branch } = headFile ? await readGitOperation(dirname(headFile)) : { operation: null, branch: null }
+        if (name !== "HEAD") {
+          state = { branch: name, detached: false, sha: null, operation }
+        } else {
+          // Detached: a rebase or bisect still knows which branch it's working on
+          const sha = (await run`git -C ${dir} rev-parse --short HEAD`).stdout.trim() || null
+          state = { branch, detached: true, sha, operation }
+        }
+      }
+    } catch {
+      state = null
+    }
+    branchCache.set(dir, { state, timestamp: now })
+    return state
+  }
+
+  // Detect the branch of a worktree directory. During a rebase or bisect this
+  // is the branch being operated on; null when detached on no branch.
+  const getCurrentBranch = async (forceRefresh: boolean = false, dir: string = directory): Promise<string | null> =>
+    (await getHeadState(forceRefresh, dir))?.branch ?? null
+
+  // Run `wt list --format=json` and parse it into typed worktree records.
+  // Throws if the command fails; parse problems are reported in `error`.
+  const listWorktrees = async (extraFlags: string[] = []): Promise<WorktreeListResult & { raw: string }> => {
+    const result = await run`wt list ${["--format=json", ...extraFlags]}`
+    const raw = result.stdout
+    return { ...parseWorktreeList(raw), raw }
+  }
+
+  // Resolve the git common dir shared by all worktrees (cached; null outside a repo)
+  let gitCommonDirCache: string | null | undefined
+  const getGitCommonDir = async (): Promise<string | null> => {
+    if (gitCommonDirCache !== undefined) {
+      return gitCommonDirCache
+    }
+    try {
+      const result = await run`git -C ${directory} rev-parse --path-format=absolute --git-common-dir`
+      const dir = result.stdout.trim()
+      gitCommonDirCache = isAbsolute(dir) && existsSync(dir) ? dir : null
+    } catch {
+      gitCommonDirCache = null
+    }
+    return gitCommonDirCache
+  }
+
+  // Load the recorded stack graph (branch -> parent)
+  const loadStack = async (): Promise<StackGraph> => {
+    const commonDir = await getGitCommonDir()
+    return commonDir ? readJson<StackGraph>(getStatePath(commonDir, STACK_FILE), {}) : {}
+  }
+
+  // Read-modify-write the stack graph
+  const updateStack = (update: (graph: StackGraph) => void) =>
+    updateStateFile(STACK_FILE, "stack graph", update)
+
+  // Read-modify-write the parent commits stacked branches are based on
+  const updateStackBases = (update: (bases: StackBases) => void) =>
+    updateStateFile(STACK_BASES_FILE, "stack bases", update)
+
+  // The commit a revision points at, or null if it doesn't resolve
+  const resolveCommit = async (revision: string, cwd: string = directory): Promise<string | null> => {
+    try {
+      const sha = (await run`git -C ${cwd} rev-parse --verify --quiet ${`${revision}^{commit}`}`).stdout.trim()
+      return /^[0-9a-f]{7,64}$/.test(sha) ? sha : null
     } catch {
-      branchCache = { branch: null, timestamp: now }
       return null
     }
   }
 
-  // Set WorkTrunk status marker
-  const setStatusMarker = async (marker: string | null) => {
-    // Use cached branch if available, but refresh if needed
-    if (!currentBranch) {
-      currentBranch = await getCurrentBranch()
-      lastKnownBranch = currentBranch
-    } else {
-      // Quick check if branch changed (use cache for performance)
-      const current = await getCurrentBranch()
-      if (current !== currentBranch && current !== null) {
-        currentBranch = current
-        lastKnownBranch = current
-        // Invalidate cache on branch change
-        branchCache = null
+  // Get the repository's default branch from WorkTrunk (empty if unknown)
+  const getDefaultBranch = async (): Promise<string> => {
+    const result = await run`wt config state default-branch`
+    return result.stdout.trim()
+  }
+
+  // Throw BranchNotFound unless the local branch exists
+  const verifyBranch = async (branch: string) => {
+    try {
+      await run`git -C ${directory} rev-parse --verify --quiet refs/heads/${branch}`
+    } catch (error) {
+      // --verify --quiet exits 1 without output for a missing ref
+      if (error instanceof CommandError && error.kind === CommandErrorKind.Failed && error.exitCode === 1) {
+        throw new CommandError(CommandErrorKind.BranchNotFound, error.command, `branch '${branch}' does not exist`, 1)
       }
+      throw error
     }
-    
-    if (!currentBranch) {
-      return // Not in a git repo or no branch detected
+  }
+
+  // Resolve the "@" (current branch) and "-" (previous branch) shortcuts.
+  // Returns null if the shortcut can't be resolved.
+  const resolveBranchShortcut = async (branch: string, dir: string = directory): Promise<string | null> => {
+    if (branch === "@") {
+      return getCurrentBranch(true, dir)
+    }
+    if (branch === "-") {
+      try {
+        const result = await run`wt config state previous-branch`
+        return result.stdout.trim() || null
+      } catch {
+        return null
+      }
+    }
+    return branch
+  }
+
+  // Check a branch name for worktrunk-create/worktrunk-spawn; returns the
+  // error message, or null if the name is fine
+  const validateBranchName = (branch: string): string | null => {
+    if (branch === "@") {
+      return null
+    }
+    const problems = checkBranchName(branch, config.naming)
+    if (problems.length === 0) {
+      return null
     }
+    return `Error: Invalid branch name '${branch}': ${problems.join("; ")}.\n\nPass task instead of branch to generate a name that follows the rules.`
+  }
 
+  // The branch a create or spawn call works on: `branch` when given, else a
+  // name generated from `task` that no local or remote branch uses yet
+  const resolveNewBranch = async (branch?: string, task?: string): Promise<{ error: string } | { branch: string; note: string }> => {
+    if (branch && task) {
+      return { error: "Error: Pass either branch or task, not both." }
+    }
+    if (branch || !task) {
+      return { branch: branch ?? "", note: "" }
+    }
+    let existing: Set<string>
     try {
-      if (marker) {
-        await $`wt config state marker set "${marker}" --branch ${currentBranch}`.quiet()
-      } else {
-        // Clear marker by setting empty
-        await $`wt config state marker set "" --branch ${currentBranch}`.quiet()
-      }
+      existing = parseBranchRefs((await run`git -C ${directory} for-each-ref ${"--format=%(refname)"} refs/heads refs/remotes`).stdout)
     } catch (error) {
-      // WorkTrunk might not be installed or configured - that's okay
-      await client.app.log({
-        body: {
-          service: "opencode-worktrunk",
-          level: "debug",
-          message: `Failed to set status marker: ${error}`,
-        },
+      return { error: formatCommandError(error, { action: "listing branches to name the new one" }) }
+    }
+    const generated = generateBranchName(task, config.naming, existing)
+    if (!generated) {
+      return { error: `Error: Couldn't build a branch name from task '${task}'. Describe the task in words, or pass branch.` }
+    }
+    return { branch: generated, note: `Generated branch name '${generated}' from the task.\n` }
+  }
+
+  // Create a worktree with `wt switch --create`, recording the stack parent
+  // when a base is given. "@" is the HEAD of `dir`, the calling session's
+  // worktree. Throws CommandError if wt fails.
+  const createWorktree = async (branch: string, base?: string, skipHooks?: boolean, dir: string = directory): Promise<{ summary: string; stdout: string }> => {
+    const flags = skipHooks ? ['--yes', '--no-verify'] : ['--yes']
+    // wt resolves "@" in its own directory, not the session's worktree
+    const here = dir === directory
+    const name = branch === "@" && !here ? await getCurrentBranch(true, dir) ?? branch : branch
+    if (!base) {
+      const result = await run`wt switch --create ${flags} ${name}`
+      return { summary: `Created and switched to branch: ${name}`, stdout: result.stdout }
+    }
+
+    // Resolve the stack parent and its tip before switching away from it
+    const parent = base === "@" ? await getCurrentBranch(true, dir) : base
+    const parentTip = await resolveCommit(base === "@" ? "HEAD" : base, dir)
+    const from = base === "@" && !here ? parent ?? parentTip ?? base : base
+    await getGitCommonDir()
+    const result = await run`wt switch --create ${flags} ${name} --base=${from}`
+    if (parent && name !== "@") {
+      await updateStack((graph) => { graph[name] = parent })
+      if (parentTip) {
+        await updateStackBases((bases) => { bases[name] = parentTip })
+      }
+    }
+    const baseInfo = base === "@" ? "current HEAD" : base
+    return { summary: `Created and switched to branch: ${name} (from ${baseInfo})`, stdout: result.stdout }
+  }
+
+  // Run the configured provisioning in a newly created worktree and return
+  // the report for the tool output ("" when nothing is configured). Progress
+  // goes to the OpenCode log as it happens.
+  const provisionNewWorktree = async (branch: string, skip?: boolean, dir: string = directory): Promise<string> => {
+    if (!hasProvisioning(config.provision)) {
+      return ""
+    }
+    if (skip) {
+      return "\n\nProvisioning skipped (skipProvision: true)."
+    }
+
+    const name = branch === "@" ? await getCurrentBranch(true, dir) : branch
+    let worktrees: WorktreeInfo[] = []
+    try {
+      worktrees = (await listWorktrees()).worktrees
+    } catch {
+      // Reported below as a missing worktree
+    }
+    const target = worktrees.find(wt => wt.branch === name)?.path
+    if (!target) {
+      return `\n\nProvisioning skipped: couldn't find the worktree for '${name ?? branch}' in 'wt list'.`
+    }
+
+    const steps = await provisionWorktree({
+      source: worktrees.find(wt => wt.isMain)?.path ?? directory,
+      target,
+      config: config.provision,
+      runner: (seconds) => createRunner($, () => ({ default: seconds })),
+      log: async (message) => {
+        await client.app.log({
+          body: {
+            service: "opencode-worktrunk",
+            level: "info",
+            message: `Provisioning ${name}: ${message}`,
+          },
+        })
+      },
+    })
+    return `\n\n${formatProvisionReport(steps)}`
+  }
+
+  // Look up (or start tracking) a session. Sessions we haven't seen a
+  // session.created event for are resolved through the SDK client, falling
+  // back to the plugin's own directory.
+  const getSession = async (sessionID: string, sessionDirectory?: string): Promise<SessionState> => {
+    let session = sessions.get(sessionID)
+    if (session) {
+      if (sessionDirectory) {
+        session.startDirectory = sessionDirectory
+      }
+      // A bound session keeps its worktree; session events only ever carry
+      // the directory the session was started in
+      if (sessionDirectory && !session.bound && sessionDirectory !== session.directory) {
+        session.directory = sessionDirectory
+        session.branch = null
+      }
+      return session
+    }
+
+    let dir = sessionDirectory
+    if (!dir) {
+      try {
+        const response = await client.session.get({ path: { id: sessionID } })
+        dir = response?.data?.directory
+      } catch {
+        // Session lookup is best-effort
+      }
+    }
+
+    const startDirectory = dir || directory
+    session = { directory: startDirectory, startDirectory, bound: false, branch: null, statusTimer: null, pendingState: null, runningTools: new Map(), permissions: new Set(), lastState: null, resumeState: null }
+    const binding = (await loadBindings())[sessionID]
+    if (binding && existsSync(binding.path)) {
+      session.directory = binding.path
+      session.branch = binding.branch
+      session.bound = true
+    }
+    sessions.set(sessionID, session)
+    return session
+  }
+
+  // The worktree a tool call acts on: the calling session's worktree (the
+  // one worktrunk-switch/create bound it to, or the one it started in),
+  // else the plugin's directory
+  const getToolDirectory = async (sessionID?: string): Promise<string> =>
+    sessionID ? (await getSession(sessionID)).directory : directory
+
+  // Load the recorded session bindings (session ID -> worktree)
+  const loadBindings = async (): Promise<SessionBindings> => {
+    const commonDir = await getGitCommonDir()
+    return commonDir ? readJson<SessionBindings>(getStatePath(commonDir, BINDINGS_FILE), {}) : {}
+  }
+
+  // Read-modify-write the session bindings
+  const updateBindings = (update: (bindings: SessionBindings) => void) =>
+    updateStateFile(BINDINGS_FILE, "session bindings", update)
+
+  // Bind a session to the worktree of `branch`, so its markers follow that
+  // worktree. Returns the working-directory note for the tool output, or ""
+  // if the worktree can't be found.
+  const bindSession = async (sessionID: string, branch: string): Promise<string> => {
+    let path: string | undefined
+    try {
+      path = (await listWorktrees()).worktrees.find(wt => wt.branch === branch)?.path ?? undefined
+    } catch {
+      // No worktree list - leave the session where it is
+    }
+    if (!path) {
+      return ""
+    }
+
+    const session = await getSession(sessionID)
+    session.directory = path
+    session.branch = branch
+    session.bound = true
+    await updateBindings((bindings) => {
+      bindings[sessionID] = { path: path!, branch, boundAt: Date.now() }
+    })
+    return `\n${formatWorkingDirectory(path, session.startDirectory)}`
+  }
+
+  // The git operation in progress in a worktree, read from its git dir
+  const readWorktreeOperation = async (path: string): Promise<GitOperation | null> => {
+    const headFile = await findHeadFile(path)
+    return headFile ? (await readGitOperation(dirname(headFile))).operation : null
+  }
+
+  // Drop bindings to a removed worktree; those sessions fall back to the
+  // directory they were started in
+  const unbindWorktree = async (path: string) => {
+    for (const session of sessions.values()) {
+      if (session.bound && session.directory === path) {
+        session.directory = session.startDirectory
+        session.branch = null
+        session.bound = false
+      }
+    }
+    await updateBindings((bindings) => {
+      for (const [sessionID, binding] of Object.entries(bindings)) {
+        if (binding.path === path) {
+          delete bindings[sessionID]
+        }
+      }
+    })
+  }
+
+  // Leases this instance's sessions hold (session ID -> branches), renewed
+  // while the session is active
+  const heldLeases = new Map<string, Set<string>>()
+  const leaseRenewals = new Map<string, number>() // session ID -> last renewal
+
+  // Load the worktree leases (branch -> lease)
+  const loadLeases = async (): Promise<Leases> => {
+    const commonDir = await getGitCommonDir()
+    return commonDir ? readJson<Leases>(getStatePath(commonDir, LEASES_FILE), {}) : {}
+  }
+
+  // Read-modify-write the worktree leases. Sessions in other OpenCode
+  // processes claim too, so the update holds the file's lock.
+  const updateLeases = (update: (leases: Leases) => void) =>
+    updateStateFile(LEASES_FILE, "worktree leases", update, true)
+
+  // The live lease another session holds on `branch`, if any
+  const findLeaseHolder = async (branch: string, sessionID?: string): Promise<Lease | null> =>
+    otherHolder(await loadLeases(), branch, sessionID, Date.now())
+
+  // Claim `branch` for a session. A live lease of another session wins
+  // unless `steal` is set; it is returned as `refused`. With `move`, the
+  // session's other leases are released (it now works in this worktree).
+  const claimLease = async (
+    branch: string,
+    sessionID: string,
+    options: { steal?: boolean; move?: boolean } = {},
+  ): Promise<LeaseClaim> => {
+    const outcome: LeaseClaim = { refused: null, stolen: null, lease: null, replaced: {} }
+    await updateLeases((leases) => {
+      const now = Date.now()
+      const holder = otherHolder(leases, branch, sessionID, now)
+      if (holder && !options.steal) {
+        outcome.refused = holder
+        return
+      }
+      outcome.stolen = holder
+      if (options.move) {
+        for (const [other, lease] of Object.entries(leases)) {
+          if (other !== branch && lease.sessionID === sessionID) {
+            outcome.replaced[other] = lease
+            delete leases[other]
+          }
+        }
+      }
+      if (leases[branch]) {
+        outcome.replaced[branch] = leases[branch]
+      }
+      const previous = leases[branch]?.sessionID === sessionID ? leases[branch] : undefined
+      outcome.lease = { sessionID, pid: process.pid, claimedAt: previous?.claimedAt ?? now, expiresAt: now + config.leases.ttlMinutes * 60000 }
+      leases[branch] = outcome.lease
+    })
+    if (outcome.lease) {
+      const held = options.move ? new Set<string>() : heldLeases.get(sessionID) ?? new Set<string>()
+      held.add(branch)
+      heldLeases.set(sessionID, held)
+      leaseRenewals.set(sessionID, Date.now())
+    }
+    return outcome
+  }
+
+  // Undo a claim whose action failed: drop it and put back the leases it
+  // replaced, unless other sessions claimed those worktrees meanwhile
+  const undoClaim = async (branch: string, sessionID: string, claim: LeaseClaim) => {
+    if (!claim.lease) {
+      return
+    }
+    await updateLeases((leases) => {
+      if (leases[branch]?.sessionID === sessionID) {
+        delete leases[branch]
+      }
+      for (const [other, lease] of Object.entries(claim.replaced)) {
+        leases[other] ??= lease
+      }
+    })
+    const held = heldLeases.get(sessionID) ?? new Set<string>()
+    held.delete(branch)
+    for (const [other, lease] of Object.entries(claim.replaced)) {
+      if (lease.sessionID === sessionID) {
+        held.add(other)
+      }
+    }
+    heldLeases.set(sessionID, held)
+  }
+
+  // Release a session's leases (all of them, or only `branches`). Returns
+  // the released branches.
+  const releaseLeases = async (sessionID: string, branches?: string[]): Promise<string[]> => {
+    const released: string[] = []
+    await updateLeases((leases) => {
+      for (const [branch, lease] of Object.entries(leases)) {
+        if (lease.sessionID === sessionID && (!branches || branches.includes(branch))) {
+          delete leases[branch]
+          released.push(branch)
+        }
+      }
+    })
+    const held = heldLeases.get(sessionID)
+    for (const branch of branches ?? [...held ?? []]) {
+      held?.delete(branch)
+    }
+    return released
+  }
+
+  // Drop the lease on a removed worktree, whoever holds it
+  const dropLease = async (branch: string) => {
+    for (const held of heldLeases.values()) {
+      held.delete(branch)
+    }
+    await updateLeases((leases) => { delete leases[branch] })
+  }
+
+  // Push back the expiry of a session's leases, at most once a minute.
+  // Leases another session took over are forgotten.
+  const renewLeases = async (sessionID: string) => {
+    const held = heldLeases.get(sessionID)
+    const now = Date.now()
+    if (!held?.size || now - (leaseRenewals.get(sessionID) ?? 0) < LEASE_RENEW_MS) {
+      return
+    }
+    leaseRenewals.set(sessionID, now)
+    await updateLeases((leases) => {
+      for (const branch of [...held]) {
+        if (leases[branch]?.sessionID === sessionID) {
+          leases[branch].expiresAt = now + config.leases.ttlMinutes * 60000
+        } else {
+          held.delete(branch)
+        }
+      }
+    })
+  }
+
+  // Claim a worktree a tool moved the session into. Returns a note for the
+  // tool output: a takeover, or a claim lost to another session meanwhile.
+  const claimWorktree = async (branch: string, sessionID: string): Promise<string> => {
+    const { refused, stolen } = await claimLease(branch, sessionID, { move: true })
+    const now = Date.now()
+    if (refused) {
+      return `\nWarning: '${branch}' was claimed by ${describeHolder(refused, now)} meanwhile; this session holds no lease on it.`
+    }
+    return formatTakeover(branch, stolen)
+  }
+
+  // Note for the tool output when a claim took over another session's lease
+  const formatTakeover = (branch: string, stolen: Lease | null): string =>
+    stolen ? `\nTook over the lease on '${branch}' from ${describeHolder(stolen, Date.now())}.` : ""
+
+  // Read-modify-write the per-worktree port registry. Worktrees in other
+  // OpenCode processes take blocks too, so the update holds the lock.
+  const updateEnvRegistry = (update: (registry: EnvRegistry) => void) =>
+    updateStateFile(ENV_REGISTRY_FILE, "port registry", update, true)
+
+  // Forget a removed worktree: the sessions bound to it, its lease, its port
+  // block and its marker owner record
+  const forgetWorktree = async (branch: string | null, path: string | null) => {
+    if (path) {
+      await unbindWorktree(path)
+    }
+    if (!branch) {
+      return
+    }
+    await dropLease(branch)
+    if (config.env.enabled) {
+      await updateEnvRegistry((registry) => { delete registry[branch] })
+    }
+    markedBranches.delete(branch)
+    await updateOwners((owners) => { delete owners[branch] })
+  }
+
+  // The default branch, looked up once for hooks that run on every command
+  // or request ("" if unknown)
+  let defaultBranchCache: string | undefined
+  const getCachedDefaultBranch = async (): Promise<string> => {
+    if (defaultBranchCache === undefined) {
+      defaultBranchCache = await getDefaultBranch().catch(() => "")
+    }
+    return defaultBranchCache
+  }
+
+  // The default branch keeps the base port
+  const isDefaultBranch = async (branch: string): Promise<boolean> => branch === await getCachedDefaultBranch()
+
+  // The environment for a branch's worktree, assigning it a port block on
+  // first use. Null outside a repo or when every block is taken.
+  const getWorktreeEnv = async (branch: string): Promise<Record<string, string> | null> => {
+    const commonDir = await getGitCommonDir()
+    if (!commonDir) {
+      return null
+    }
+    const file = getStatePath(commonDir, ENV_REGISTRY_FILE)
+    const isDefault = await isDefaultBranch(branch)
+    let assignment = (await readJson<EnvRegistry>(file, {}))[branch]
+    if (!assignment) {
+      await updateEnvRegistry((registry) => {
+        const port = registry[branch] ? null : chooseBlock(registry, branch, config.env, isDefault)
+        if (port !== null) {
+          registry[branch] = { port, assignedAt: Date.now() }
+        }
       })
+      assignment = (await readJson<EnvRegistry>(file, {}))[branch]
+    }
+    if (!assignment) {
+      return null
     }
+    // Name the compose project after the repository, not the worktree
+    const repo = basename(commonDir) === ".git" ? basename(dirname(commonDir)) : basename(commonDir).replace(/\.git$/, "")
+    return worktreeEnv(branch, assignment.port, config.env, repo, isDefault)
   }
 
-  // Debounced status update with improved debouncing strategy
-  const updateStatus = (marker: string | null) => {
-    if (statusTimer) {
-      clearTimeout(statusTimer)
+  // Export the worktree's environment at the start of a bash command, so
+  // dev servers started by the agent use the worktree's ports
+  const injectWorktreeEnv = async (sessionID: string, args: { command?: unknown }) => {
+    if (typeof args?.command !== "string") {
+      return
+    }
+    const branch = await resolveMarkerBranch(await getSession(sessionID))
+    const vars = branch ? await getWorktreeEnv(branch) : null
+    if (vars) {
+      args.command = withExports(args.command, vars)
     }
-    // Use shorter debounce for status changes (200ms) to be more responsive
-    // but still batch rapid status changes
-    statusTimer = setTimeout(() => {
-      setStatusMarker(marker)
-    }, 200) // Debounce by 200ms for better responsiveness
   }
 
-  // Check for branch changes that occur outside the plugin
-  const checkBranchChange = async () => {
-    // Force refresh to detect external changes
-    const newBranch = await getCurrentBranch(true)
-    if (newBranch !== lastKnownBranch && newBranch !== null) {
-      // Branch changed externally - update tracking and invalidate cache
-      currentBranch = newBranch
-      lastKnownBranch = newBranch
-      branchCache = null // Invalidate cache on branch change
+  // Context blocks by session directory, reused for CONTEXT_TTL_MS since the
+  // system prompt is rebuilt on every request. Cleared when a worktrunk tool
+  // runs, as it may have changed the worktrees.
+  const contextCache = new Map<string, { block: string; at: number }>()
+
+  // The worktree context block for a session's prompt, or null outside a repo
+  const getContextBlock = async (sessionID: string, fresh: boolean = false): Promise<string | null> => {
+    const session = await getSession(sessionID)
+    const cached = contextCache.get(session.directory)
+    if (!fresh && cached && Date.now() - cached.at < CONTEXT_TTL_MS) {
+      return cached.block
+    }
+
+    const branch = await resolveMarkerBranch(session)
+    let worktrees: WorktreeInfo[] = []
+    try {
+      worktrees = (await listWorktrees()).worktrees
+    } catch {
+      // Context without siblings
+    }
+    const own = worktrees.find(wt => wt.path === session.directory) ?? worktrees.find(wt => branch !== null && wt.branch === branch)
+    if (!branch && !own) {
+      return null
+    }
+    const parent = branch ? (await loadStack())[branch] ?? null : null
+    const defaultBranch = await getCachedDefaultBranch()
+    const block = formatWorktreeContext({
+      branch,
+      path: own?.path ?? session.directory,
+      base: parent ?? (defaultBranch && defaultBranch !== branch ? defaultBranch : null),
+      stacked: parent !== null,
+      dirty: own ? own.dirty : null,
+      operation: await readWorktreeOperation(own?.path ?? session.directory),
+      siblings: worktrees
+        .filter(wt => wt.path && wt !== own)
+        .map(wt => ({ branch: wt.branch, path: wt.path!, marker: wt.marker, dirty: wt.dirty })),
+    }, config.context.maxLength)
+    contextCache.set(session.directory, { block, at: Date.now() })
+    return block
+  }
+
+  // Add the context block to a hook's output list. Failures are logged; the
+  // request goes on without the block.
+  const addContextBlock = async (sessionID: string, target: string[], fresh: boolean) => {
+    if (!config.context.enabled || disposed || !sessionID) {
+      return
+    }
+    try {
+      const block = await getContextBlock(sessionID, fresh)
+      if (block) {
+        target.push(block)
+      }
+    } catch (error) {
       await client.app.log({
         body: {
           service: "opencode-worktrunk",
-          level: "info",
-          message: `Detected branch change: ${newBranch}`,
+          level: "debug",
+          message: `Failed to build worktree context: ${error}`,
         },
       })
     }
   }
 
-  // Initialize lazily - don't block startup with git/wt commands
-  // Branch detection will happen on first status update
-  
-  // Use setImmediate to defer initialization after plugin loads
-  setTimeout(async () => {
-    try {
+  // Resolve the branch a status marker should be written to
+  const resolveMarkerBranch = async (session?: SessionState): Promise<string | null> => {
+    // Sessions in another worktree track their own branch. The last known
+    // branch is only kept while HEAD can't be read; a detached HEAD has none.
+    if (session && session.directory !== directory) {
+      const head = await getHeadState(false, session.directory)
+      if (head) {
+        session.branch = head.branch
+      }
+      return session.branch
+    }
+
+    // Use cached branch if available, but refresh if needed
+    if (!currentBranch) {
       currentBranch = await getCurrentBranch()
       lastKnownBranch = currentBranch
-
-      // Set up periodic branch checking to detect external changes
-      // Check every 2 seconds for branch changes (e.g., manual git checkout)
-      if (currentBranch) {
-        branchCheckInterval = setInterval(() => {
-          checkBranchChange().catch(() => {
-            // Silently handle errors in background check
-          })
-        }, 2000)
+    } else {
+      // Quick check if branch changed (use cache for performance). Detaching
+      // HEAD from every branch clears it, so no marker lands on a branch
+      // that isn't checked out.
+      const head = await getHeadState()
+      if (head && head.branch !== currentBranch) {
+        currentBranch = head.branch
+        lastKnownBranch = head.branch
+        // Invalidate cache on branch change
+        branchCache.delete(directory)
       }
+    }
+
+    if (session) {
+      session.branch = currentBranch
+    }
+    return currentBranch
+  }
 
+  // Read-modify-write a JSON file in the shared state directory (see
+  // updateJson; `lock` guards against other processes). Failures are
+  // logged, never thrown.
+  const updateStateFile = async <T extends object>(name: string, what: string, update: (data: T) => void, lock: boolean = false) => {
+    const commonDir = await getGitCommonDir()
+    if (!commonDir) {
+      return
+    }
+    try {
+      await updateJson<T>(getStatePath(commonDir, name), {} as T, update, lock)
+    } catch (error) {
       await client.app.log({
         body: {
           service: "opencode-worktrunk",
-          level: "info",
-          message: `WorkTrunk plugin initialized${currentBranch ? ` for branch: ${currentBranch}` : ""}`,
+          level: "debug",
+          message: `Failed to update ${what}: ${error}`,
         },
       })
+    }
+  }
+
+  // Read-modify-write the marker owner records. Every OpenCode process on
+  // the repository records and reaps owners, so the update holds the lock.
+  const updateOwners = (update: (owners: MarkerOwners) => void) =>
+    updateStateFile(OWNERS_FILE, "marker owners", update, true)
+
+  // Read-modify-write the marker state records behind worktrunk-dashboard
+  const updateMarkerStates = (update: (states: MarkerStates) => void) =>
+    updateStateFile(MARKER_STATES_FILE, "marker states", update)
+
+  // Record a marker write for the dashboard, and append it to the marker
+  // history if the state or marker changed. Failures are logged, never thrown.
+  const recordTransition = async (branch: string, state: string | null, marker: string | null, sessionID: string | null) => {
+    const time = Date.now()
+    let changed = false
+    await updateMarkerStates((states) => {
+      changed = recordMarkerState(states, branch, state, marker, sessionID, time)
+    })
+    const commonDir = await getGitCommonDir()
+    if (!changed || !commonDir) {
+      return
+    }
+    const transition: MarkerTransition = { time, branch, state, marker, sessionID }
+    try {
+      await appendJsonLine(getStatePath(commonDir, HISTORY_FILE), transition)
     } catch (error) {
-      // Initialization failed, plugin will work without branch tracking
       await client.app.log({
         body: {
           service: "opencode-worktrunk",
-          level: "warn",
-          message: `WorkTrunk plugin init failed: ${error}`,
+          level: "debug",
+          message: `Failed to append marker history: ${error}`,
         },
       })
     }
-  }, 100)
+  }
+
+  // Write a marker (or clear it with null) on a branch, recording this
+  // process as the marker's owner so crashed sessions can be reaped, and the
+  // state behind the marker for the dashboard and history
+  const writeMarker = async (branch: string, marker: string | null, sessionID?: string, state: string | null = null) => {
+    try {
+      if (marker) {
+        await run`wt config state marker set "${marker}" --branch ${branch}`
+        markedBranches.add(branch)
+        await updateOwners((owners) => {
+          owners[branch] = { pid: process.pid, sessionID: sessionID ?? null, marker, heartbeat: Date.now() }
+        })
+      } else {
+        // Clear marker by setting empty
+        await run`wt config state marker set "" --branch ${branch}`
+        markedBranches.delete(branch)
+        await updateOwners((owners) => {
+          delete owners[branch]
+        })
+      }
+      await recordTransition(branch, state, marker, sessionID ?? null)
+    } catch (error) {
+      // WorkTrunk might not be installed or configured - that's okay
+      await client.app.log({
+        body: {
+          service: "opencode-worktrunk",
+          level: "debug",
+          message: `Failed to set status marker: ${error}`,
+        },
+      })
+    }
+  }
+
+  // Set the WorkTrunk status marker for a state on the branch of the given
+  // session's worktree. The marker comes from the configured state mapping.
+  const setStatusMarker = async (state: string, sessionID?: string) => {
+    const marker = resolveMarker(config, state)
+    const session = sessionID ? await getSession(sessionID) : undefined
+    const branch = await resolveMarkerBranch(session)
+    
+    if (!branch) {
+      return // Not in a git repo or no branch detected
+    }
+
+    await writeMarker(branch, marker, sessionID, state)
+  }
+
+  // Refresh heartbeats of the markers we own, then find (and unless dryRun,
+  // clear) markers whose owner process is gone or whose heartbeat is stale
+  const sweepStaleMarkers = async (staleAfterMs: number, dryRun: boolean = false): Promise<StaleMarker[]> => {
+    let stale: StaleMarker[] = []
+    await updateOwners((owners) => {
+      const now = Date.now()
+      for (const branch of markedBranches) {
+        if (owners[branch]?.pid === process.pid) {
+          owners[branch].heartbeat = now
+        }
+      }
+      stale = findStaleMarkers(owners, now, staleAfterMs).filter(({ branch }) => !markedBranches.has(branch))
+    })
+    if (dryRun) {
+      return stale
+    }
+
+    const cleared: StaleMarker[] = []
+    for (const entry of stale) {
+      try {
+        await run`wt config state marker set "" --branch ${entry.branch}`
+        cleared.push(entry)
+      } catch (error) {
+        await client.app.log({
+          body: {
+            service: "opencode-worktrunk",
+            level: "debug",
+            message: `Failed to clear stale marker on ${entry.branch}: ${error}`,
+          },
+        })
+      }
+    }
+    if (cleared.length > 0) {
+      await updateOwners((owners) => {
+        for (const { branch } of cleared) {
+          delete owners[branch]
+        }
+      })
+      // The owning session ended without clearing its marker
+      for (const { branch, owner } of cleared) {
+        await recordTransition(branch, "ended", null, owner.sessionID)
+      }
+      await client.app.log({
+        body: {
+          service: "opencode-worktrunk",
+          level: "info",
+          message: `Cleared stale markers: ${cleared.map(({ branch }) => branch).join(", ")}`,
+        },
+      })
+    }
+    return cleared
+  }
+
+  // Count commits in a worktree that exist on no remote. Uses the upstream
+  // when there is one; repos without remotes have nothing to push.
+  const countUnpushed = async (path: string): Promise<number> => {
+    const upstreamRange = "@{upstream}..HEAD"
+    let output: string
+    try {
+      output = (await run`git -C ${path} rev-list --count ${upstreamRange}`).stdout
+    } catch {
+      if (!(await run`git -C ${path} remote`).stdout.trim()) {
+        return 0
+      }
+      output = (await run`git -C ${path} rev-list --count HEAD --not --remotes`).stdout
+    }
+    return Number.parseInt(output.trim(), 10) || 0
+  }
+
+  // Find what removing or leaving a worktree could lose or disturb: local
+  // changes and unpushed commits in `path`, and a live marker on `markerBranch`
+  // held by a session other than `sessionID`
+  const findWorktreeRisks = async (path: string | null, markerBranch: string | null, sessionID?: string): Promise<WorktreeRisk[]> => {
+    const risks: WorktreeRisk[] = []
+    if (path) {
+      try {
+        const status = parsePorcelainStatus((await run`git -C ${path} status --porcelain`).stdout)
+        risks.push(...localRisks(status, await countUnpushed(path)))
+      } catch (error) {
+        // Not a usable worktree - let wt report the problem
+        await client.app.log({
+          body: {
+            service: "opencode-worktrunk",
+            level: "debug",
+            message: `Could not inspect worktree ${path}: ${error}`,
+          },
+        })
+      }
+    }
+    const commonDir = markerBranch ? await getGitCommonDir() : null
+    if (markerBranch && commonDir) {
+      const owners = await readJson<MarkerOwners>(getStatePath(commonDir, OWNERS_FILE), {})
+      const stale = new Set(findStaleMarkers(owners, Date.now(), config.reaper.staleAfterMinutes * 60000).map(({ branch }) => branch))
+      const risk = stale.has(markerBranch) ? null : markerRisk(markerBranch, owners[markerBranch], sessionID)
+      if (risk) {
+        risks.push(risk)
+      }
+    }
+    return risks
+  }
+
+  // Save a worktree's local changes with a stash or a WIP commit
+  const saveLocalChanges = async (path: string, mode: SaveMode, reason: string): Promise<string> => {
+    if (mode === "stash") {
+      await run`git -C ${path} stash push --include-untracked -m ${`worktrunk: ${reason}`}`
+      return "Stashed local changes (restore with: git stash pop)"
+    }
+    await run`git -C ${path} add -A`
+    await run`git -C ${path} commit --no-verify -m ${`WIP: ${reason}`}`
+    return "Committed local changes as a WIP commit"
+  }
+
+  // Guard a destructive tool action. Refuses (returns the message) if work
+  // could be lost, unless forced; with saveChanges, local changes are
+  // stashed or committed first. Otherwise returns a note on what was saved.
+  const guardWorktree = async (options: {
+    action: string
+    path: string | null
+    markerBranch: string | null
+    sessionID?: string
+    force?: boolean
+    saveChanges?: SaveMode
+    suggest: (extra: string) => string
+  }): Promise<{ refusal: string | null; note: string }> => {
+    const risks = await findWorktreeRisks(options.path, options.markerBranch, options.sessionID)
+    const blocking = risks.filter(risk => !(options.saveChanges && isLocalChange(risk)))
+    if (!options.force && blocking.length > 0) {
+      return { refusal: formatRefusal(options.action, risks, options.suggest), note: "" }
+    }
+    if (options.saveChanges && options.path && risks.some(isLocalChange)) {
+      return { refusal: null, note: `${await saveLocalChanges(options.path, options.saveChanges, `before ${options.action}`)}\n` }
+    }
+    return { refusal: null, note: "" }
+  }
+
+  const loadBusyCheck = async (sessionID?: string): Promise<BusyCheck> => {
+    const commonDir = await getGitCommonDir()
+    return {
+      activeMarkers: resolveActiveMarkers(config),
+      owners: commonDir ? await readJson<MarkerOwners>(getStatePath(commonDir, OWNERS_FILE), {}) : {},
+      leases: await loadLeases(),
+      sessionID,
+    }
+  }
+
+  // Why a worktree shouldn't be rebased or merged into right now, or null:
+  // uncommitted changes, an agent working there, a claim by another
+  // session, or a git operation in progress
+  const findBusyReason = async (wt: WorktreeInfo, branch: string, path: string, check: BusyCheck): Promise<string | null> => {
+    if (wt.dirty) {
+      return "uncommitted changes"
+    }
+    const owner = check.owners[branch]
+    if (wt.marker && check.activeMarkers.has(wt.marker) && !(check.sessionID && owner?.sessionID === check.sessionID)) {
+      return `agent working (${wt.marker})`
+    }
+    const holder = otherHolder(check.leases, branch, check.sessionID, Date.now())
+    if (holder) {
+      return `claimed by ${describeHolder(holder, Date.now())}`
+    }
+    const head = await getHeadState(true, path)
+    return head?.operation ? `${head.operation} in progress` : null
+  }
+
+  // Bring one worktree up to date with `base` (already fetched). Busy
+  // worktrees (see findBusyReason) are skipped. Conflicts are aborted,
+  // never left behind. Timeouts are thrown: the command may still be
+  // running, so the caller must stop.
+  const syncWorktree = async (
+    wt: WorktreeInfo,
+    branch: string,
+    path: string,
+    base: string,
+    strategy: SyncStrategy,
+    dryRun: boolean,
+    check: BusyCheck,
+  ): Promise<SyncResult> => {
+    const busy = await findBusyReason(wt, branch, path, check)
+    if (busy) {
+      return { branch, status: "skipped", detail: busy }
+    }
+
+    let ahead: number
+    let behind: number
+    try {
+      const counts = (await run`git -C ${path} rev-list --left-right --count ${`HEAD...${base}`}`).stdout.trim().split(/\s+/)
+      ahead = Number.parseInt(counts[0], 10) || 0
+      behind = Number.parseInt(counts[1], 10) || 0
+    } catch (error) {
+      if (isTimeout(error)) {
+        throw error
+      }
+      return { branch, status: "failed", detail: error instanceof Error ? error.message : String(error) }
+    }
+
+    const { action, detail } = chooseSyncAction(ahead, behind, strategy, base)
+    if (action === "none") {
+      return { branch, status: "up to date", detail }
+    }
+    if (action === "skip") {
+      return { branch, status: "skipped", detail }
+    }
+    if (dryRun) {
+      return { branch, status: "would update", detail }
+    }
+
+    try {
+      if (action === "ff") {
+        await run`git -C ${path} merge --ff-only ${base}`
+      } else if (action === "rebase") {
+        await run`git -C ${path} rebase ${base}`
+      } else {
+        await run`git -C ${path} merge --no-edit ${base}`
+      }
+      return { branch, status: "updated", detail }
+    } catch (error) {
+      if (error instanceof CommandError && error.kind === CommandErrorKind.Conflict) {
+        const files = parseConflictFiles(error.output)
+        // Put the worktree back the way it was instead of leaving it mid-rebase
+        const command = action === "rebase" ? "rebase" : "merge"
+        await run`git -C ${path} ${command} --abort`.catch(() => {})
+        return { branch, status: "conflicted", detail: `${action} onto ${base} aborted; conflicts in ${files.join(", ") || "unknown files"}` }
+      }
+      if (isTimeout(error)) {
+        throw error
+      }
+      return { branch, status: "failed", detail: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  // The commit a stacked branch was last based on: the recorded parent tip
+  // if it's still in the branch's history, else git's fork point from the
+  // parent's reflog, else the parent itself (a plain rebase)
+  const findStackBase = async (path: string, branch: string, parent: string, recorded?: string): Promise<string> => {
+    if (recorded) {
+      try {
+        await run`git -C ${path} merge-base --is-ancestor ${recorded} ${branch}`
+        return recorded
+      } catch {
+        // Recorded commit is gone from the branch (e.g. rebased by hand)
+      }
+    }
+    try {
+      const forkPoint = (await run`git -C ${path} merge-base --fork-point ${parent} ${branch}`).stdout.trim()
+      if (forkPoint) {
+        return forkPoint
+      }
+    } catch {
+      // No reflog entry to go by
+    }
+    return parent
+  }
+
+  // Periodic reaper sweep using the configured threshold
+  const startReaper = () => {
+    const staleAfterMs = config.reaper.staleAfterMinutes * 60000
+    reaperInterval = setInterval(() => {
+      sweepStaleMarkers(staleAfterMs).catch(() => {
+        // Silently handle errors in background sweep
+      })
+    }, config.reaper.intervalSeconds * 1000)
+    // Background sweeps shouldn't keep the process alive
+    reaperInterval.unref?.()
+  }
+
+  // Debounced status update with improved debouncing strategy.
+  // Each session debounces independently so sessions don't cancel each other.
+  const updateStatus = (state: string, sessionID?: string) => {
+    if (disposed) {
+      return
+    }
+    const session = sessionID ? sessions.get(sessionID) : undefined
+    if (session) {
+      // While a permission request is open its marker stays; remember the
+      // latest state to return to once it's answered
+      if (session.permissions.size > 0 && state !== "permission") {
+        session.resumeState = state
+        return
+      }
+      session.lastState = state
+    }
+    const pending = session ? session.statusTimer : statusTimer
+    if (pending) {
+      clearTimeout(pending)
+    }
+    // Use shorter debounce for status changes (200ms) to be more responsive
+    // but still batch rapid status changes
+    const timer = setTimeout(() => {
+      if (session) {
+        session.statusTimer = null
+        session.pendingState = null
+      } else {
+        statusTimer = null
+        pendingState = null
+      }
+      setStatusMarker(state, sessionID)
+    }, 200) // Debounce by 200ms for better responsiveness
+    if (session) {
+      session.statusTimer = timer
+      session.pendingState = state
+    } else {
+      statusTimer = timer
+      pendingState = state
+    }
+  }
+
+  // A permission request was opened: show the permission marker until every
+  // open request of the session is answered
+  const openPermission = async (sessionID: string, permissionID: string) => {
+    const session = await getSession(sessionID)
+    if (session.permissions.size === 0) {
+      session.resumeState = session.lastState
+    }
+    session.permissions.add(permissionID)
+    updateStatus("permission", sessionID)
+  }
+
+  // A permission request was answered: return to the state from before the
+  // request (or the latest one reported while it was open)
+  const closePermission = (sessionID: string, permissionID: string) => {
+    const session = sessions.get(sessionID)
+    if (!session?.permissions.delete(permissionID) || session.permissions.size > 0) {
+      return
+    }
+    const resume = session.resumeState ?? "working"
+    session.resumeState = null
+    updateStatus(resume, sessionID)
+  }
+
+  // Check for branch changes that occur outside the plugin
+  const checkBranchChange = async () => {
+    // Force refresh to detect external changes. Unreadable HEADs (null)
+    // keep the last known branch; detached ones clear it.
+    const head = await getHeadState(true)
+    if (head && head.branch !== lastKnownBranch) {
+      // Branch changed externally - update tracking and invalidate cache
+      currentBranch = head.branch
+      lastKnownBranch = head.branch
+      branchCache.delete(directory) // Invalidate cache on branch change
+      await client.app.log({
+        body: {
+          service: "opencode-worktrunk",
+          level: "info",
+          message: head.branch ? `Detected branch change: ${head.branch}` : "Detected detached HEAD",
+        },
+      })
+    }
+  }
+
+  // Fallback: poll every 2 seconds for branch changes (e.g., manual git checkout)
+  const startBranchPolling = () => {
+    if (branchCheckInterval) {
+      return
+    }
+    branchCheckInterval = setInterval(() => {
+      checkBranchChange().catch(() => {
+        // Silently handle errors in background check
+      })
+    }, 2000)
+    // Background checks shouldn't keep the process alive
+    branchCheckInterval.unref?.()
+  }
+
+  // Detect branch changes by watching the worktree's HEAD file instead of
+  // spawning git on a timer. Git replaces HEAD via a lock file + rename, so
+  // watch the containing git dir and filter for HEAD.
+  const startBranchWatcher = async () => {
+    const headFile = await findHeadFile(directory)
+    if (headFile) {
+      try {
+        headWatcher = watch(dirname(headFile), (eventType, filename) => {
+          if (filename === basename(headFile)) {
+            checkBranchChange().catch(() => {
+              // Silently handle errors in background check
+            })
+          }
+        })
+        headWatcher.unref?.()
+        headWatcher.on("error", (error) => {
+          // Watcher died (e.g. git dir removed) - fall back to polling
+          headWatcher?.close()
+          headWatcher = null
+          startBranchPolling()
+          client.app.log({
+            body: {
+              service: "opencode-worktrunk",
+              level: "debug",
+              message: `HEAD watcher failed, falling back to polling: ${error}`,
+            },
+          }).catch(() => {})
+        })
+        return
+      } catch {
+        // fs.watch unsupported here - fall through to polling
+      }
+    }
+    startBranchPolling()
+    await client.app.log({
+      body: {
+        service: "opencode-worktrunk",
+        level: "debug",
+        message: "Could not watch HEAD, polling for branch changes instead",
+      },
+    })
+  }
+
+  // Initialize lazily - don't block startup with git/wt commands
+  // Branch detection will happen on first status update
+  
+  // Use setImmediate to defer initialization after plugin loads
+  const initTimer = setTimeout(async () => {
+    try {
+      currentBranch = await getCurrentBranch()
+      lastKnownBranch = currentBranch
+
+      // Watch for branch changes made outside the plugin
+      if (currentBranch && !disposed) {
+        await startBranchWatcher()
+      }
+
+      // Clear markers left behind by crashed sessions, now and periodically
+      if (!disposed) {
+        await sweepStaleMarkers(config.reaper.staleAfterMinutes * 60000)
+      }
+      if (!disposed) {
+        startReaper()
+      }
+
+      await client.app.log({
+        body: {
+          service: "opencode-worktrunk",
+          level: "info",
+          message: `WorkTrunk plugin initialized${currentBranch ? ` for branch: ${currentBranch}` : ""}`,
+        },
+      })
+    } catch (error) {
+      // Initialization failed, plugin will work without branch tracking
+      await client.app.log({
+        body: {
+          service: "opencode-worktrunk",
+          level: "warn",
+          message: `WorkTrunk plugin init failed: ${error}`,
+        },
+      })
+    }
+  }, 100)
+
+  // Shut down: stop timers and watchers, flush pending debounced markers,
+  // then reset every marker this instance set to the "ended" state
+  const dispose = async () => {
+    if (disposed) {
+      return
+    }
+    disposed = true
+    activePlugins.delete(active)
+
+    clearTimeout(initTimer)
+    if (branchCheckInterval) {
+      clearInterval(branchCheckInterval)
+      branchCheckInterval = null
+    }
+    headWatcher?.close()
+    headWatcher = null
+    if (reaperInterval) {
+      clearInterval(reaperInterval)
+      reaperInterval = null
+    }
+
+    const pending: Array<{ state: string; sessionID?: string }> = []
+    if (statusTimer) {
+      clearTimeout(statusTimer)
+      statusTimer = null
+      if (pendingState !== null) {
+        pending.push({ state: pendingState })
+      }
+      pendingState = null
+    }
+    for (const [sessionID, session] of sessions) {
+      if (session.statusTimer) {
+        clearTimeout(session.statusTimer)
+        session.statusTimer = null
+        if (session.pendingState !== null) {
+          pending.push({ state: session.pendingState, sessionID })
+        }
+        session.pendingState = null
+      }
+    }
+    for (const { state, sessionID } of pending) {
+      await setStatusMarker(state, sessionID)
+    }
+
+    const endedMarker = resolveMarker(config, "ended")
+    const endedBranches = [...markedBranches]
+    for (const branch of endedBranches) {
+      await writeMarker(branch, endedMarker, undefined, "ended")
+    }
+    if (endedMarker) {
+      // Ended markers outlive this process on purpose - don't let the reaper clear them
+      await updateOwners((owners) => {
+        for (const branch of endedBranches) {
+          if (owners[branch]?.pid === process.pid) {
+            delete owners[branch]
+          }
+        }
+      })
+    }
+
+    // Our sessions are gone, so are their claims
+    for (const sessionID of heldLeases.keys()) {
+      await releaseLeases(sessionID)
+    }
+
+    await client.app.log({
+      body: {
+        service: "opencode-worktrunk",
+        level: "info",
+        message: "WorkTrunk plugin disposed",
+      },
+    })
+  }
+
+  // Last-moment shutdown while the process exits: set the branches this
+  // instance marked to the "ended" state with blocking commands. Owner
+  // records and leases of the dead process are left to the reaper and
+  // lease checks.
+  const exitNow = () => {
+    if (disposed) {
+      return
+    }
+    disposed = true
+    activePlugins.delete(active)
+    const endedMarker = resolveMarker(config, "ended") ?? ""
+    for (const branch of markedBranches) {
+      spawnSync("wt", ["config", "state", "marker", "set", endedMarker, "--branch", branch], { cwd: directory, stdio: "ignore", timeout: 5000 })
+    }
+  }
+
+  const active: ActivePlugin = { dispose, exit: exitNow }
+  activePlugins.add(active)
+  installExitHook()
+
+  return {
+    // Track session status changes
+    event: async ({ event }) => {
+      const sessionID = getEventSessionID(event)
+      if (sessionID && event.type !== "session.deleted") {
+        // session.created/updated carry the directory the session runs in
+        await getSession(sessionID, (event as any).properties?.info?.directory)
+        await renewLeases(sessionID)
+      }
 
-  return {
-    // Track session status changes
-    event: async ({ event }) => {
       switch (event.type) {
         case "session.status": {
-          // event.status contains the current status
-          const status = (event as any).status
-          if (status === "working" || status === "thinking") {
-            updateStatus("🤖")
-          } else if (status === "waiting" || status === "idle") {
-            updateStatus("💬")
-          } else {
-            updateStatus(null)
+          // OpenCode reports busy, idle or retry. Busy shows as "working";
+          // idle and retry use the states of the same name, so all three are
+          // looked up in the configured marker mapping.
+          const status = event.properties.status.type
+          const state = status === "busy" ? "working" : status
+          // A running tool's marker is more specific than "working"
+          const session = sessionID ? sessions.get(sessionID) : undefined
+          if (session?.runningTools.size && state === "working") {
+            break
+          }
+          updateStatus(state, sessionID)
+          break
+        }
+
+        case "session.created": {
+          // Set initial status when session starts
+          updateStatus("created", sessionID)
+          break
+        }
+
+        case "session.idle": {
+          // Session finished its turn and is waiting for input. Tools that
+          // threw never reached tool.execute.after, so drop them here.
+          const session = sessionID ? sessions.get(sessionID) : undefined
+          session?.runningTools.clear()
+          updateStatus("idle", sessionID)
+          break
+        }
+
+        case "session.error": {
+          // A failed session isn't waiting on its permission requests or
+          // running tools anymore
+          const session = sessionID ? sessions.get(sessionID) : undefined
+          session?.permissions.clear()
+          session?.runningTools.clear()
+          updateStatus("error", sessionID)
+          break
+        }
+
+        case "permission.updated": {
+          // Asked for permission: blocked on a person until it's answered
+          const permissionID = event.properties.id
+          if (sessionID && permissionID) {
+            await openPermission(sessionID, permissionID)
+          }
+          break
+        }
+
+        case "permission.replied": {
+          const permissionID = event.properties.permissionID
+          if (sessionID && permissionID) {
+            closePermission(sessionID, permissionID)
+          }
+          break
+        }
+
+        case "session.deleted": {
+          // Stop tracking the session
+          const session = sessionID ? sessions.get(sessionID) : undefined
+          if (session?.statusTimer) {
+            clearTimeout(session.statusTimer)
+          }
+          if (sessionID) {
+            sessions.delete(sessionID)
+            await updateBindings((bindings) => {
+              delete bindings[sessionID]
+            })
+            if (heldLeases.has(sessionID)) {
+              await releaseLeases(sessionID)
+              heldLeases.delete(sessionID)
+              leaseRenewals.delete(sessionID)
+            }
+          }
+          break
+        }
+
+        case "server.instance.disposed": {
+          // OpenCode is shutting down this instance
+          const disposedDirectory = event.properties.directory
+          if (!disposedDirectory || disposedDirectory === directory) {
+            await dispose()
+          }
+          break
+        }
+      }
+    },
+
+    // Show what the agent is doing while mapped tools run (✏️ editing,
+    // 🧪 running commands). Goes through the same debounce as session
+    // events, so short tool calls don't flicker the marker.
+    "tool.execute.before": async (input, output) => {
+      if (input.tool === "bash" && config.env.enabled && !disposed) {
+        await injectWorktreeEnv(input.sessionID, output.args)
+      }
+      const state = resolveToolState(config, input.tool)
+      if (!state || disposed) {
+        return
+      }
+      const session = await getSession(input.sessionID)
+      session.runningTools.set(input.callID, state)
+      updateStatus(state, input.sessionID)
+    },
+
+    "tool.execute.after": async (input) => {
+      if (input.tool.startsWith("worktrunk-")) {
+        contextCache.clear()
+      }
+      const session = sessions.get(input.sessionID)
+      if (!session?.runningTools.delete(input.callID)) {
+        return
+      }
+      // Fall back to another tool still running, else the agent is working
+      const running = [...session.runningTools.values()]
+      updateStatus(running.length > 0 ? running[running.length - 1] : "working", input.sessionID)
+    },
+
+    // Tell the agent which worktree it is in on every request
+    "experimental.chat.system.transform": async (input, output) => {
+      await addContextBlock(input.sessionID, output.system, false)
+    },
+
+    // Keep the worktree context in the summary of a compacted session
+    "experimental.session.compacting": async (input, output) => {
+      await addContextBlock(input.sessionID, output.context, true)
+    },
+
+    // OpenCode is asking the user for permission. The permission.updated
+    // event reports the same request; it is only counted once.
+    "permission.ask": async (input) => {
+      if (input.sessionID && input.id && !disposed) {
+        await openPermission(input.sessionID, input.id)
+      }
+    },
+
+    // Custom tools for WorkTrunk operations
+    tool: {
+      "worktrunk-list": tool({
+        description: `List all WorkTrunk worktrees with their status.
+
+Examples:
+- worktrunk-list() - Compact summary table of all worktrees
+- worktrunk-list({format: "json"}) - Normalized JSON records for parsing
+- worktrunk-list({full: true, branches: true}) - Show PR/CI status for all branches including those without worktrees
+
+Each worktree record has: branch, path, head, ahead/behind vs the default branch, dirty, marker, remote tracking, and CI/PR status.
+
+Use cases:
+- Check what branches have active worktrees
+- Monitor CI status across all branches (use --full --branches)
+- Get structured data for scripts (use format: "json")`,
+        args: {
+          format: tool.schema.string().optional().describe("Output format: 'text' (default, summary table) or 'json' for normalized structured output"),
+          full: tool.schema.boolean().optional().describe("Show full details including PR/CI status"),
+          branches: tool.schema.boolean().optional().describe("Include branches without worktrees (useful with --full for CI monitoring)"),
+        },
+        async execute(args, ctx) {
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
+          }
+          
+          try {
+            const format = args.format || "text"
+            const parts: string[] = []
+            
+            if (args.full) {
+              parts.push("--full")
+            }
+            if (args.branches) {
+              parts.push("--branches")
+            }
+            
+            const { worktrees, error, raw } = await listWorktrees(parts)
+            if (error) {
+              // Older WorkTrunk versions may not emit JSON - show what we got
+              return format === "json" ? `Error: ${error}\n\n${raw}` : raw
+            }
+            if (format === "json") {
+              return JSON.stringify(worktrees, null, 2)
+            }
+            const spawned = ctx?.sessionID ? formatSpawnedSessions(await loadBindings(), ctx.sessionID, worktrees) : ""
+            return formatWorktreeTable(worktrees) + (spawned ? `\n\n${spawned}` : "")
+          } catch (error) {
+            return formatCommandError(error, {
+              action: "running 'wt list'",
+              troubleshooting: ["Ensure WorkTrunk is installed: wt --version", "Check you're in a git repository: git rev-parse --git-dir", "Verify WorkTrunk is initialized: wt list"],
+            })
+          }
+        },
+      }),
+
+      "worktrunk-switch": tool({
+        description: `Switch to a different WorkTrunk worktree/branch.
+
+Examples:
+- worktrunk-switch({branch: "feature/api"}) - Switch to feature/api branch
+- worktrunk-switch({branch: "@"}) - Switch to current branch (refresh)
+- worktrunk-switch({branch: "-"}) - Switch to previous worktree
+
+Shortcuts:
+- "@" - Current branch (useful for refreshing)
+- "-" - Previous worktree (quick toggle)
+
+Safety: refuses to leave a worktree with uncommitted changes, untracked files or unpushed commits,
+or to switch into a branch whose marker belongs to another session. Pass saveChanges to stash or
+WIP-commit local changes first, or force: true to switch anyway.
+
+Leases: switching claims the target worktree for this session (and releases its other claims). A worktree
+claimed by another live session is refused; pass steal: true to take the claim over.
+
+Use when you need to change context to work on a different branch.`,
+        args: {
+          branch: tool.schema.string().describe("Branch name to switch to, or '@' for current branch, or '-' for previous worktree"),
+          force: tool.schema.boolean().optional().describe("Switch even if work could be left behind or another session holds the target. Default: false"),
+          saveChanges: tool.schema.enum(["stash", "commit"]).optional().describe("Save uncommitted changes in the current worktree first: 'stash' or 'commit' (WIP commit)"),
+          steal: tool.schema.boolean().optional().describe("Take over the target's lease if another session claimed it. Default: false"),
+        },
+        async execute(args, ctx) {
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
+          }
+          
+          try {
+            let note = ""
+            const from = await getToolDirectory(ctx?.sessionID)
+            const target = await resolveBranchShortcut(args.branch, from)
+            // Claim the target before switching, in one locked update, so two
+            // sessions can't both pass the check and move in. Without a
+            // session there is nothing to claim; any live lease refuses.
+            const claim = target && ctx?.sessionID ? await claimLease(target, ctx.sessionID, { steal: args.steal, move: true }) : null
+            const holder = claim ? claim.refused : target && !args.steal ? await findLeaseHolder(target) : null
+            if (holder) {
+              return formatLeaseRefusal(`switch to '${target}'`, holder, Date.now(), (extra) => `worktrunk-switch({branch: "${args.branch}", ${extra}})`)
+            }
+            // The claim only stands if the switch happens
+            const undo = async () => {
+              if (claim && target && ctx?.sessionID) {
+                await undoClaim(target, ctx.sessionID, claim)
+              }
+            }
+            let result: CommandResult
+            try {
+              if (args.branch !== "@") {
+                const leaving = target !== await getCurrentBranch(true, from)
+                const guard = await guardWorktree({
+                  action: `switch to '${target ?? args.branch}'`,
+                  path: leaving ? from : null,
+                  markerBranch: target,
+                  sessionID: ctx?.sessionID,
+                  force: args.force,
+                  saveChanges: args.saveChanges,
+                  suggest: (extra) => `worktrunk-switch({branch: "${args.branch}", ${extra}})`,
+                })
+                if (guard.refusal) {
+                  await undo()
+                  return guard.refusal
+                }
+                note = guard.note
+              }
+              // wt resolves "@" from its own directory, not the session's worktree
+              result = await run`wt switch --yes ${args.branch === "@" && target && from !== directory ? target : args.branch}`
+            } catch (error) {
+              await undo()
+              throw error
+            }
+            // Update currentBranch if not using shortcuts
+            if (args.branch !== "@" && args.branch !== "-") {
+              currentBranch = args.branch
+              lastKnownBranch = args.branch
+            } else {
+              // For shortcuts, refresh current branch after switch
+              currentBranch = await getCurrentBranch()
+              lastKnownBranch = currentBranch
+            }
+            const workHere = ctx?.sessionID && target ? await bindSession(ctx.sessionID, target) : ""
+            const claimed = claim && target ? formatTakeover(target, claim.stolen) : ""
+            updateStatus("waiting", ctx?.sessionID)
+            return `${note}Switched to branch: ${args.branch}${workHere}${claimed}\n${result.stdout}`
+          } catch (error) {
+            return formatCommandError(error, {
+              action: `switching to branch '${args.branch}'`,
+              branch: args.branch,
+              troubleshooting: ["Ensure the branch exists: wt list", "Check branch name spelling", "Verify you're in a WorkTrunk-managed repository"],
+            })
+          }
+        },
+      }),
+
+      "worktrunk-claim": tool({
+        description: `Claim a worktree for this session, so other sessions don't work in it at the same time.
+
+Claims are leases recorded in the repository's git dir: other sessions (also in other OpenCode
+processes) are refused when they switch into a claimed worktree. A claim is renewed while this
+session is active, lapses after leases.ttlMinutes (default 30) without activity, and ends with the
+session or its OpenCode process. worktrunk-switch, worktrunk-create and worktrunk-spawn claim
+automatically; use this to claim another worktree too or to take over a claim.
+
+Examples:
+- worktrunk-claim() - Claim the worktree this session works in
+- worktrunk-claim({branch: "feature/api"}) - Claim feature/api's worktree
+- worktrunk-claim({branch: "feature/api", steal: true}) - Take the claim over from another session`,
+        args: {
+          branch: tool.schema.string().optional().describe("Branch whose worktree to claim. Default: the worktree this session works in"),
+          steal: tool.schema.boolean().optional().describe("Take the claim over if another live session holds it. Default: false"),
+        },
+        async execute(args, ctx) {
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
+          }
+          if (!ctx?.sessionID) {
+            return "Error: Claims belong to a session, and this call has none."
+          }
+          if (!await getGitCommonDir()) {
+            return "Not in a git repository.\n\nTroubleshooting:\n- Ensure you're in a git repository: git rev-parse --git-dir"
+          }
+          const branch = args.branch ?? await resolveMarkerBranch(await getSession(ctx.sessionID))
+          if (!branch) {
+            return "Error: No branch checked out here. Pass branch to pick a worktree."
+          }
+          try {
+            if (!(await listWorktrees()).worktrees.some(wt => wt.branch === branch && wt.path)) {
+              return `Error: '${branch}' has no worktree to claim. Create one with worktrunk-create({branch: "${branch}"}).`
+            }
+          } catch (error) {
+            return formatCommandError(error, { action: `claiming '${branch}'`, branch })
+          }
+          
+          const { refused, stolen, lease } = await claimLease(branch, ctx.sessionID, { steal: args.steal })
+          const now = Date.now()
+          if (refused) {
+            return formatLeaseRefusal(`claim '${branch}'`, refused, now, (extra) => `worktrunk-claim({branch: "${branch}", ${extra}})`)
+          }
+          if (!lease) {
+            return `Error: Couldn't record the claim on '${branch}'; see the OpenCode log.`
+          }
+          const takeover = stolen ? `Took over the lease from ${describeHolder(stolen, now)}.\n` : ""
+          return `${takeover}Claimed '${branch}' for session ${ctx.sessionID}. Other sessions are refused when they switch into it.\nThe claim is renewed while this session is active and lapses after ${formatDuration(config.leases.ttlMinutes * 60000)} without activity.`
+        },
+      }),
+
+      "worktrunk-release": tool({
+        description: `Release this session's claim on a worktree, so other sessions can switch into it.
+
+Examples:
+- worktrunk-release() - Release the worktree this session works in
+- worktrunk-release({branch: "feature/api"}) - Release feature/api's worktree
+- worktrunk-release({all: true}) - Release every claim of this session
+
+Claims also end when the session is deleted or OpenCode exits. See worktrunk-claim.`,
+        args: {
+          branch: tool.schema.string().optional().describe("Branch whose worktree to release. Default: the worktree this session works in"),
+          all: tool.schema.boolean().optional().describe("Release all of this session's claims. Default: false"),
+        },
+        async execute(args, ctx) {
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
+          }
+          if (!ctx?.sessionID) {
+            return "Error: Claims belong to a session, and this call has none."
+          }
+          if (!await getGitCommonDir()) {
+            return "Not in a git repository.\n\nTroubleshooting:\n- Ensure you're in a git repository: git rev-parse --git-dir"
+          }
+          if (args.all) {
+            const released = await releaseLeases(ctx.sessionID)
+            return released.length > 0
+              ? `Released ${released.length} claim(s): ${released.join(", ")}`
+              : "This session holds no claims."
+          }
+          
+          const branch = args.branch ?? await resolveMarkerBranch(await getSession(ctx.sessionID))
+          if (!branch) {
+            return "Error: No branch checked out here. Pass branch to pick a worktree."
+          }
+          const holder = await findLeaseHolder(branch, ctx.sessionID)
+          if (holder) {
+            return `Error: '${branch}' is claimed by ${describeHolder(holder, Date.now())}, not this session. Only the holder can release it; take it over with worktrunk-claim({branch: "${branch}", steal: true}).`
+          }
+          const released = await releaseLeases(ctx.sessionID, [branch])
+          return released.length > 0
+            ? `Released the claim on '${branch}'. Other sessions can switch into it now.`
+            : `This session has no claim on '${branch}'.`
+        },
+      }),
+
+      "worktrunk-status": tool({
+        description: `Get current WorkTrunk status for the active branch.
+
+Example:
+- worktrunk-status() - Shows status of the current branch
+
+Use this to check the current branch's worktree status, including any status markers set by the plugin (🤖 working, 💬 waiting).
+Also reports a detached HEAD, or a rebase, merge, cherry-pick or bisect in progress and how to finish it.
+For a session bound to a worktree by worktrunk-switch or worktrunk-create, reports that worktree.`,
+        args: {},
+        async execute(args, ctx) {
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
+          }
+          
+          try {
+            // A session bound to another worktree gets that worktree's status
+            const session = ctx?.sessionID ? sessions.get(ctx.sessionID) : undefined
+            const bound = session?.bound ? session : undefined
+            const head = await getHeadState(false, bound?.directory ?? directory)
+            const branch = head?.branch ?? null
+            if (!bound) {
+              // Always refresh branch to handle external changes
+              currentBranch = branch
+              lastKnownBranch = currentBranch
+            }
+            
+            if (!head) {
+              return "Not in a git repository or no branch detected.\n\nTroubleshooting:\n- Ensure you're in a git repository: git rev-parse --git-dir\n- Check you're on a branch (not detached HEAD): git branch"
+            }
+            const where = bound ? `Session worktree: ${bound.directory}\n` : ""
+            const operation = head.operation ? `${describeHeadState(head)} - ${describeOperationHint(head.operation)}\n\n` : ""
+            if (!branch) {
+              const summary = operation || `${describeHeadState(head)}\n\n`
+              return `${where}${summary}No branch is checked out, so there is no worktree status or marker.\n\nTroubleshooting:\n- Check out a branch: git switch <branch>`
+            }
+
+            const { worktrees, error, raw } = await listWorktrees()
+            if (error) {
+              return where + operation + (raw.trim() || `Current branch: ${branch}`)
+            }
+            const info = worktrees.find(wt => wt.branch === branch)
+            return where + operation + (info ? formatWorktreeDetails(info) : `Current branch: ${branch}`)
+          } catch (error) {
+            return formatCommandError(error, { action: "getting WorkTrunk status" })
+          }
+        },
+      }),
+
+      "worktrunk-dashboard": tool({
+        description: `Summarize every worktree for triaging parallel agents.
+
+Examples:
+- worktrunk-dashboard() - All worktrees
+- worktrunk-dashboard({attention: true}) - Only worktrees that need attention
+
+For each worktree: marker and the session state behind it, how long it has been in that state, the owning
+session, the last commit, dirty state, ahead/behind the default branch and CI status. A worktree needs
+attention when its agent is waiting for input (💬), its session hit an error, or a rebase, merge,
+cherry-pick or bisect is in progress (usually conflicts).
+
+Use this to check on many agents at once and find the ones that are blocked.`,
+        args: {
+          attention: tool.schema.boolean().optional().describe("Only show worktrees that need attention. Default: false"),
+        },
+        async execute(args) {
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
+          }
+
+          try {
+            const { worktrees, error, raw } = await listWorktrees()
+            if (error) {
+              return `Error: ${error}\n\n${raw}`
+            }
+            const commonDir = await getGitCommonDir()
+            const read = <T extends object>(name: string) => commonDir ? readJson<T>(getStatePath(commonDir, name), {} as T) : Promise.resolve({} as T)
+            const states = await read<MarkerStates>(MARKER_STATES_FILE)
+            const owners = await read<MarkerOwners>(OWNERS_FILE)
+            const bindings = await loadBindings()
+
+            const rows: DashboardRow[] = []
+            for (const wt of worktrees) {
+              if (!wt.path || !wt.branch) {
+                continue // Branches without a worktree have no agent
+              }
+              const state = states[wt.branch] ?? null
+              const bound = Object.entries(bindings).find(([, binding]) => binding.path === wt.path)?.[0] ?? null
+              rows.push({
+                worktree: wt,
+                state,
+                sessionID: owners[wt.branch]?.sessionID ?? state?.sessionID ?? bound,
+                operation: await readWorktreeOperation(wt.path),
+              })
+            }
+
+            const attentionMarkers = ATTENTION_STATES.map(state => resolveMarker(config, state)).filter((marker): marker is string => marker !== null)
+            const flagged = rows.filter(row => attentionReason(row, attentionMarkers) !== null)
+            const shown = args.attention ? flagged : rows
+            if (shown.length === 0) {
+              return args.attention ? "No worktrees need attention." : "No worktrees found."
+            }
+            const summary = `${rows.length} worktree(s), ${flagged.length} need attention`
+            return `${formatDashboard(shown, attentionMarkers, Date.now())}\n\n${summary}`
+          } catch (error) {
+            return formatCommandError(error, { action: "building the worktree dashboard" })
+          }
+        },
+      }),
+
+      "worktrunk-activity": tool({
+        description: `Report how long each branch spent working, waiting for input and idle over a time window.
+
+Examples:
+- worktrunk-activity() - Last 24 hours, all branches
+- worktrunk-activity({hours: 168}) - Last week
+- worktrunk-activity({branch: "feature/api"}) - One branch
+
+Built from the marker history the plugin logs on every marker change. "Waiting" is time an agent sat
+waiting for input (💬); "Waiting share" is waiting time as a share of working + waiting time. Custom
+states such as "blocked" count as "Other".
+
+Use this to see where agents block on human input.`,
+        args: {
+          hours: tool.schema.number().optional().describe("Length of the window, in hours back from now. Default: 24"),
+          branch: tool.schema.string().optional().describe("Only report this branch"),
+        },
+        async execute(args) {
+          const hours = args.hours ?? 24
+          if (!(hours > 0)) {
+            return "Error: hours must be a positive number."
+          }
+
+          const commonDir = await getGitCommonDir()
+          if (!commonDir) {
+            return "Error: Not in a git repository, so there is no marker history.\n\nTroubleshooting:\n- Ensure you're in a git repository: git rev-parse --git-dir"
+          }
+          const history = await readJsonLines<MarkerTransition>(getStatePath(commonDir, HISTORY_FILE))
+          const transitions = args.branch ? history.filter(entry => entry.branch === args.branch) : history
+
+          const to = Date.now()
+          const from = to - hours * 3600000
+          return `Marker activity over the last ${hours}h (since ${new Date(from).toISOString()}):\n\n${formatActivity(summarizeActivity(transitions, from, to))}`
+        },
+      }),
+
+      "worktrunk-status-update": tool({
+        description: `Manually update WorkTrunk status marker for the current branch.
+
+Examples:
+- worktrunk-status-update({marker: "🤖"}) - Set working marker
+- worktrunk-status-update({marker: "💬"}) - Set waiting marker
+- worktrunk-status-update({marker: ""}) - Clear marker
+- worktrunk-status-update({marker: "🚧", branch: "feature/x"}) - Update specific branch
+- worktrunk-status-update({state: "tests-failing"}) - Set the marker configured for a named state
+
+Use cases:
+- Explicit status changes when automatic tracking misses updates
+- Recovery from missed status updates
+- Custom status markers for specific workflows
+- Setting status on branches other than current
+- Setting custom states (e.g. "blocked", "tests-failing") defined in .opencode/worktrunk.json
+
+The plugin automatically manages status markers, but this tool allows manual control when needed.`,
+        args: {
+          marker: tool.schema.string().optional().describe("Status marker to set (e.g., '🤖', '💬', or '' to clear). Use empty string to clear marker."),
+          state: tool.schema.string().optional().describe("Named state from the marker config (e.g., 'working', 'blocked'). Used instead of marker."),
+          branch: tool.schema.string().optional().describe("Branch name to update. Defaults to current branch. Use '@' for current branch."),
+        },
+        async execute(args, ctx) {
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
+          }
+          
+          if (args.state !== undefined && !(args.state in config.markers)) {
+            const states = Object.keys(config.markers).join(", ")
+            return `Error: Unknown state '${args.state}'. Configured states: ${states}`
+          }
+          if (args.state === undefined && args.marker === undefined) {
+            return "Error: Provide either a marker or a state to set."
+          }
+          
+          try {
+            let targetBranch = args.branch
+            
+            // Handle shortcuts and defaults
+            const dir = await getToolDirectory(ctx?.sessionID)
+            if (!targetBranch || targetBranch === "@") {
+              targetBranch = await getCurrentBranch(false, dir) ?? undefined
+              if (!targetBranch) {
+                return "Not in a git repository or no branch detected.\n\nTroubleshooting:\n- Ensure you're in a git repository: git rev-parse --git-dir\n- Check you're on a branch (not detached HEAD): git branch"
+              }
+            } else {
+              // wt accepts markers for any name - catch typos before writing one
+              await verifyBranch(targetBranch)
+            }
+            
+            // Update the marker directly using wt command
+            const marker = args.state !== undefined ? resolveMarker(config, args.state) : args.marker
+            const markerValue = marker || ""
+            await getGitCommonDir()
+            await run`wt config state marker set "${markerValue}" --branch ${targetBranch}`
+            await recordTransition(targetBranch, args.state ?? null, markerValue || null, ctx?.sessionID ?? null)
+            
+            // Also update currentBranch tracking if updating current branch
+            if ((!args.branch || args.branch === "@") && dir === directory) {
+              currentBranch = targetBranch
+              lastKnownBranch = targetBranch
+            }
+            
+            const markerDisplay = markerValue || "(cleared)"
+            return `Updated status marker for branch '${targetBranch}': ${markerDisplay}`
+          } catch (error) {
+            return formatCommandError(error, { action: "updating status marker", branch: args.branch })
+          }
+        },
+      }),
+
+      "worktrunk-create": tool({
+        description: `Create a new WorkTrunk worktree for a branch.
+
+Examples:
+- worktrunk-create({branch: "feature/new-feature"}) - Create worktree from default branch
+- worktrunk-create({branch: "feature/part2", base: "@"}) - Create stacked branch from current HEAD
+- worktrunk-create({branch: "feature/part2", base: "feature/part1"}) - Create stacked branch from another branch
+- worktrunk-create({branch: "@"}) - Create worktree for current branch
+- worktrunk-create({task: "Fix the login redirect loop"}) - Generate the branch name (e.g. fix/login-redirect-loop)
+
+Branch names must be valid git branch names and follow the "naming" policy in .opencode/worktrunk.json
+(required prefixes, maximum length, lowercase). With task instead of branch, a name that follows the policy
+and isn't used by any local or remote branch is generated.
+
+Stacked branches:
+- Use base: "@" to branch from current HEAD (enables incremental feature development)
+- Chain multiple stacked branches: part1 -> part2 -> part3
+
+Shortcuts:
+- "@" - Current branch name
+
+Provisioning: if .opencode/worktrunk.json has a "provision" section, files are copied or symlinked from the
+main worktree and setup commands run in the new worktree; the output ends with a report. Pass
+skipProvision: true to skip it.
+
+Use this when starting work on a new feature branch.`,
+        args: {
+          branch: tool.schema.string().optional().describe("Branch name to create worktree for, or '@' for current branch. Required unless task is given"),
+          task: tool.schema.string().optional().describe("Free-text description of the work, to generate the branch name from instead of passing branch"),
+          base: tool.schema.string().optional().describe("Base branch or commit to branch from. Use '@' to branch from current HEAD (stacked branches)."),
+          skipHooks: tool.schema.boolean().optional().describe("Skip git hooks during creation (--no-verify). Default: false"),
+          skipProvision: tool.schema.boolean().optional().describe("Skip the provisioning configured in .opencode/worktrunk.json. Default: false"),
+        },
+        async execute(args, ctx) {
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
+          }
+          
+          if (!args.branch && !args.task) {
+            return "Error: Pass a branch name, or a task to generate one from."
+          }
+          const named = await resolveNewBranch(args.branch, args.task)
+          if ("error" in named) {
+            return named.error
+          }
+          const branch = named.branch
+          const invalid = validateBranchName(branch)
+          if (invalid) {
+            return invalid
+          }
+
+          // "@" (branch or base) is the calling session's worktree
+          const dir = await getToolDirectory(ctx?.sessionID)
+
+          // Bind the calling session to the new worktree and claim it
+          const bindCreated = async (): Promise<string> => {
+            if (!ctx?.sessionID) {
+              return ""
+            }
+            const bound = branch === "@" ? await getCurrentBranch(true, dir) : branch
+            return bound ? `${await bindSession(ctx.sessionID, bound)}${await claimWorktree(bound, ctx.sessionID)}` : ""
+          }
+
+          try {
+            const created = await createWorktree(branch, args.base, args.skipHooks, dir)
+            currentBranch = branch
+            lastKnownBranch = branch
+            const workHere = await bindCreated()
+            updateStatus("waiting", ctx?.sessionID)
+            const report = await provisionNewWorktree(branch, args.skipProvision, dir)
+            return `${named.note}${created.summary}${workHere}\n${created.stdout}${report}`
+          } catch (error) {
+            return formatCommandError(error, { action: `creating worktree for branch '${branch}'`, branch })
+          }
+        },
+      }),
+
+      "worktrunk-spawn": tool({
+        description: `Create a worktree and start a new OpenCode session in it, working on a prompt in parallel.
+
+Examples:
+- worktrunk-spawn({branch: "feature/api-tests", prompt: "Add integration tests for the REST API"})
+- worktrunk-spawn({branch: "fix/login", prompt: "Fix the login redirect bug", base: "develop", title: "Login fix"})
+- worktrunk-spawn({task: "API integration tests", prompt: "Add integration tests for the REST API"}) - Generate the branch name
+
+Branch names follow the same rules as worktrunk-create. Without branch, the name is generated from task,
+or from the prompt when there's no task.
+
+The worktree is created and provisioned like worktrunk-create. The new session is a child of the calling session, runs in the
+new worktree and starts on the prompt right away. Returns the new session's ID; its status marker is shown in
+worktrunk-list under "Spawned sessions".
+
+Use this to hand off an independent task to a parallel agent.`,
+        args: {
+          branch: tool.schema.string().optional().describe("Branch name to create the worktree for. Default: generated from task or prompt"),
+          task: tool.schema.string().optional().describe("Short description of the work to generate the branch name from. Default: the prompt"),
+          prompt: tool.schema.string().describe("Task for the new session"),
+          base: tool.schema.string().optional().describe("Base branch or commit to branch from. Use '@' to branch from current HEAD (stacked branches)."),
+          title: tool.schema.string().optional().describe("Title of the new session. Default: the branch name"),
+          agent: tool.schema.string().optional().describe("Agent to run the prompt with. Default: OpenCode's default agent"),
+          skipHooks: tool.schema.boolean().optional().describe("Skip git hooks during creation (--no-verify). Default: false"),
+          skipProvision: tool.schema.boolean().optional().describe("Skip the provisioning configured in .opencode/worktrunk.json. Default: false"),
+        },
+        async execute(args, ctx) {
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
+          }
+
+          if (args.branch === "@") {
+            return "Error: worktrunk-spawn needs a new branch name; '@' is the current branch."
+          }
+          const named = await resolveNewBranch(args.branch, args.branch ? args.task : args.task ?? args.prompt)
+          if ("error" in named) {
+            return named.error
+          }
+          const branch = named.branch
+          const invalid = validateBranchName(branch)
+          if (invalid) {
+            return invalid
+          }
+
+          let path: string | null = null
+          try {
+            await createWorktree(branch, args.base, args.skipHooks, await getToolDirectory(ctx?.sessionID))
+            path = (await listWorktrees()).worktrees.find(wt => wt.branch === branch)?.path ?? null
+          } catch (error) {
+            return formatCommandError(error, { action: `creating worktree for branch '${branch}'`, branch })
+          }
+          if (!path) {
+            return `Error: Created branch '${branch}' but couldn't find its worktree in 'wt list', so no session was started.`
+          }
+          // Provision before the session starts, so it finds a ready worktree
+          const report = await provisionNewWorktree(branch, args.skipProvision)
+
+          let sessionID: string | undefined
+          try {
+            const created = await client.session.create({
+              body: { parentID: ctx?.sessionID, title: args.title ?? branch },
+              query: { directory: path },
+            })
+            sessionID = created?.data?.id
+            if (!sessionID) {
+              throw new Error(created?.error ? JSON.stringify(created.error) : "no session returned")
+            }
+
+            // Track the child before prompting, so its first events already
+            // put markers on its own branch
+            sessions.set(sessionID, { directory: path, startDirectory: path, bound: true, branch, statusTimer: null, pendingState: null, runningTools: new Map(), permissions: new Set(), lastState: null, resumeState: null })
+            await updateBindings((bindings) => {
+              bindings[sessionID!] = { path: path!, branch, boundAt: Date.now(), parentID: ctx?.sessionID }
+            })
+            await claimWorktree(branch, sessionID)
+
+            const prompted = await client.session.promptAsync({
+              path: { id: sessionID },
+              body: { parts: [{ type: "text", text: args.prompt }], agent: args.agent },
+              query: { directory: path },
+            })
+            if (prompted?.error) {
+              throw new Error(JSON.stringify(prompted.error))
+            }
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            const session = sessionID ? `Session ${sessionID} was created but the prompt wasn't sent` : "No session was started"
+            return `Error starting a session in worktree '${path}': ${message}\n\n${session}. The worktree for '${branch}' is kept.\n\nTroubleshooting:\n- Check the OpenCode server is running\n- Retry with worktrunk-switch({branch: "${branch}"}) to work there from this session${report}`
+          }
+
+          updateStatus("working", sessionID)
+          return `${named.note}Spawned session ${sessionID} for branch ${branch}\nWorking directory: ${path}\nThe session is working on the prompt in parallel; check on it with worktrunk-list.${report}`
+        },
+      }),
+
+      "worktrunk-remove": tool({
+        description: `Remove a WorkTrunk worktree.
+
+Examples:
+- worktrunk-remove({branch: "feature/old"}) - Remove worktree for feature/old
+- worktrunk-remove({branch: "@"}) - Remove current worktree
+
+Shortcuts:
+- "@" - Current worktree
+
+Safety: refuses to remove a worktree with uncommitted changes, untracked files or unpushed commits,
+or whose marker belongs to another session. Pass saveChanges to stash or WIP-commit local changes
+first, or force: true to remove anyway.
+
+Use this to clean up worktrees when you're done with a branch. The plugin will automatically detect if you're no longer in a git repo after removal.`,
+        args: {
+          branch: tool.schema.string().describe("Branch name or worktree to remove, or '@' for current worktree"),
+          force: tool.schema.boolean().optional().describe("Remove even if work could be lost or another session holds the branch. Default: false"),
+          saveChanges: tool.schema.enum(["stash", "commit"]).optional().describe("Save uncommitted changes first: 'stash' or 'commit' (WIP commit on the branch)"),
+        },
+        async execute(args, ctx) {
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
           }
-          break
-        }
+          
+          try {
+            const dir = await getToolDirectory(ctx?.sessionID)
+            const target = await resolveBranchShortcut(args.branch, dir)
+            let worktrees: WorktreeInfo[] = []
+            try {
+              worktrees = (await listWorktrees()).worktrees
+            } catch {
+              // Can't locate the worktree - wt remove reports it
+            }
+            const path = worktrees.find(wt => wt.branch === target)?.path ?? (args.branch === "@" ? dir : null)
+            const guard = await guardWorktree({
+              action: `remove worktree '${target ?? args.branch}'`,
+              path,
+              markerBranch: target,
+              sessionID: ctx?.sessionID,
+              force: args.force,
+              saveChanges: args.saveChanges,
+              suggest: (extra) => `worktrunk-remove({branch: "${args.branch}", ${extra}})`,
+            })
+            if (guard.refusal) {
+              return guard.refusal
+            }
+            // wt resolves "@" from its own directory, not the session's worktree
+            const result = await run`wt remove --yes ${args.branch === "@" && target && dir !== directory ? target : args.branch}`
+            await forgetWorktree(target, path)
+            // If removing current worktree, clear currentBranch and refresh
+            if ((args.branch === "@" && dir === directory) || args.branch === currentBranch) {
+              currentBranch = null
+              lastKnownBranch = null
+              // Refresh to see if we're still in a repo
+              const newBranch = await getCurrentBranch()
+              if (newBranch) {
+                currentBranch = newBranch
+                lastKnownBranch = newBranch
+              }
+            }
+            return `${guard.note}Removed worktree: ${args.branch}\n${result.stdout}`
+          } catch (error) {
+            return formatCommandError(error, { action: `removing worktree '${args.branch}'`, branch: args.branch })
+          }
+        },
+      }),
 
-        case "session.created": {
-          // Set initial status when session starts
-          updateStatus("💬")
-          break
-        }
+      "worktrunk-prune": tool({
+        description: `Find and remove finished worktrees in bulk.
 
-        case "session.idle": {
-          // Clear marker when session becomes idle
-          updateStatus(null)
-          break
-        }
+A worktree can be pruned when its branch is merged into the default branch, its upstream branch
+is gone (deleted on the remote), or it has had no commits for idleDays days.
 
-        case "session.error": {
-          // Clear marker on error
-          updateStatus(null)
-          break
-        }
-      }
-    },
+Never pruned: the main worktree, the current worktree or one a session here works in, worktrees
+with uncommitted changes or untracked files, worktrees in the middle of a rebase/merge, and
+branches with an active status marker (markers from crashed sessions don't count; see worktrunk-reap),
+and worktrees claimed by a live session (see worktrunk-claim).
 
-    // Custom tools for WorkTrunk operations
-    tool: {
-      "worktrunk-list": tool({
-        description: `List all WorkTrunk worktrees with their status.
+Dry run by default: reports what would be removed. Pass confirm: true to remove the worktrees.
 
 Examples:
-- worktrunk-list() - List all worktrees in text format
-- worktrunk-list({format: "json"}) - Get structured JSON output for parsing
-- worktrunk-list({full: true, branches: true}) - Show PR/CI status for all branches including those without worktrees
+- worktrunk-prune() - Fetch and report what would be pruned
+- worktrunk-prune({confirm: true}) - Remove the prunable worktrees
+- worktrunk-prune({idleDays: 14, confirm: true}) - Also remove worktrees idle for two weeks
 
-Use cases:
-- Check what branches have active worktrees
-- Monitor CI status across all branches (use --full --branches)
-- Get structured data for scripts (use format: "json")`,
+Returns a table of every worktree: removed (or would remove) and why, or kept and why.`,
         args: {
-          format: tool.schema.string().optional().describe("Output format: 'text' (default) or 'json' for structured output"),
-          full: tool.schema.boolean().optional().describe("Show full details including PR/CI status"),
-          branches: tool.schema.boolean().optional().describe("Include branches without worktrees (useful with --full for CI monitoring)"),
+          confirm: tool.schema.boolean().optional().describe("Remove the prunable worktrees. Default: false (dry run, only report)"),
+          idleDays: tool.schema.number().optional().describe("Days without commits after which a worktree counts as abandoned. Default: 30"),
         },
         async execute(args, ctx) {
-          if (!(await isWorkTrunkInstalled())) {
-            return "Error: WorkTrunk is not installed. Please install it from https://worktrunk.dev/install"
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
+          }
+          
+          const idleDays = args.idleDays ?? 30
+          if (!(idleDays > 0)) {
+            return "Error: idleDays must be a positive number."
           }
+          const dryRun = !args.confirm
           
+          // Refresh remote branches so deleted upstreams show as gone
+          let fetchNote = ""
           try {
-            const format = args.format || "text"
-            const parts: string[] = []
+            await run`git -C ${directory} fetch --all --prune`
+          } catch (error) {
+            fetchNote = `Note: fetch failed, so upstream checks use the last fetched state (${error instanceof Error ? error.message : String(error)})\n\n`
+          }
+          
+          let worktrees: WorktreeInfo[]
+          let defaultBranch: string
+          let merged: Set<string>
+          let gone: Set<string>
+          try {
+            worktrees = (await listWorktrees()).worktrees
+            defaultBranch = await getDefaultBranch()
+            if (!defaultBranch) {
+              return "Error: Unable to determine default branch. WorkTrunk may not be initialized in this repository."
+            }
+            const mergedOutput = (await run`git -C ${directory} branch ${"--format=%(refname:short)"} --merged ${defaultBranch}`).stdout
+            merged = new Set(mergedOutput.split("\n").map(line => line.trim()).filter(Boolean))
+            gone = parseGoneBranches((await run`git -C ${directory} for-each-ref ${"--format=%(refname:short)%09%(upstream:track)"} refs/heads`).stdout)
+          } catch (error) {
+            return formatCommandError(error, { action: "listing worktrees to prune" })
+          }
+          
+          const commonDir = await getGitCommonDir()
+          const owners = commonDir ? await readJson<MarkerOwners>(getStatePath(commonDir, OWNERS_FILE), {}) : {}
+          const leases = await loadLeases()
+          const now = Date.now()
+          const stale = new Set(findStaleMarkers(owners, now, config.reaper.staleAfterMinutes * 60000).map(({ branch }) => branch))
+          const defaultHead = worktrees.find(wt => wt.branch === defaultBranch)?.head ?? null
+          const inUse = new Set([directory, ...[...sessions.values()].map(session => session.directory)])
+          
+          const results: PruneResult[] = []
+          for (const wt of worktrees) {
+            if (!wt.path) {
+              continue // Branch without a worktree
+            }
+            if (!wt.branch) {
+              results.push({ branch: `(detached) ${wt.path}`, status: "kept", detail: "detached HEAD" })
+              continue
+            }
+            const branch = wt.branch
+            if (wt.isMain || branch === defaultBranch) {
+              results.push({ branch, status: "kept", detail: "main worktree" })
+              continue
+            }
             
-            if (format === "json") {
-              parts.push("--format=json")
+            // A new branch still at the default branch's tip isn't merged, just unstarted
+            const unstarted = merged.has(branch) && wt.head !== null && wt.head === defaultHead
+            const reasons = pruneReasons({
+              branch,
+              merged: merged.has(branch) && !unstarted,
+              upstreamGone: gone.has(branch),
+              committedAt: wt.committedAt,
+            }, defaultBranch, idleDays * 86400000, now)
+            if (reasons.length === 0) {
+              const age = wt.committedAt ? `, last commit ${formatDuration(now - wt.committedAt)} ago` : ""
+              const detail = unstarted ? "no commits of its own yet" : `not merged, upstream present${age}`
+              results.push({ branch, status: "kept", detail: `in use (${detail})` })
+              continue
             }
-            if (args.full) {
-              parts.push("--full")
+            const why = reasons.join(", ")
+            const keep = (detail: string) => results.push({ branch, status: "kept", detail: `${why}, but ${detail}` })
+            
+            if (inUse.has(wt.path)) {
+              keep("a session here works in it")
+              continue
             }
-            if (args.branches) {
-              parts.push("--branches")
+            if (wt.marker && !stale.has(branch)) {
+              keep(`active marker ${wt.marker}`)
+              continue
+            }
+            const holder = otherHolder(leases, branch, undefined, now)
+            if (holder) {
+              keep(`claimed by ${describeHolder(holder, now)}`)
+              continue
+            }
+            let local: string[]
+            try {
+              local = localRisks(parsePorcelainStatus((await run`git -C ${wt.path} status --porcelain`).stdout), 0).map(risk => risk.detail)
+            } catch (error) {
+              keep(`its status can't be read (${error instanceof Error ? error.message : String(error)})`)
+              continue
+            }
+            if (wt.dirty && local.length === 0) {
+              local.push("uncommitted changes")
+            }
+            if (local.length > 0) {
+              keep(local.join("; "))
+              continue
+            }
+            const operation = await readWorktreeOperation(wt.path)
+            if (operation) {
+              keep(`${operation} in progress`)
+              continue
             }
             
-            const flags = parts.length > 0 ? ` ${parts.join(" ")}` : ""
-            const result = await $`wt list${flags}`.quiet()
-            return result.stdout.toString()
-          } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error)
-            return `Error running 'wt list': ${errorMsg}\n\nTroubleshooting:\n- Ensure WorkTrunk is installed: wt --version\n- Check you're in a git repository: git rev-parse --git-dir\n- Verify WorkTrunk is initialized: wt list`
+            if (dryRun) {
+              results.push({ branch, status: "would remove", detail: why })
+              continue
+            }
+            try {
+              await run`wt remove --yes ${branch}`
+              await forgetWorktree(branch, wt.path)
+              results.push({ branch, status: "removed", detail: why })
+            } catch (error) {
+              results.push({ branch, status: "failed", detail: `${why}; ${error instanceof Error ? error.message : String(error)}` })
+              if (isTimeout(error)) {
+                // wt remove may still be running; don't start another
+                return `${fetchNote}${formatPruneReport(results, dryRun)}\n\nStopped after a timeout removing '${branch}': it may still be running, so the remaining worktrees were not checked. Run worktrunk-prune again once it has finished.`
+              }
+            }
           }
+          return `${fetchNote}${formatPruneReport(results, dryRun)}`
         },
       }),
 
-      "worktrunk-switch": tool({
-        description: `Switch to a different WorkTrunk worktree/branch.
+      "worktrunk-merge": tool({
+        description: `Merge the current worktree's branch back into its target branch.
 
 Examples:
-- worktrunk-switch({branch: "feature/api"}) - Switch to feature/api branch
-- worktrunk-switch({branch: "@"}) - Switch to current branch (refresh)
-- worktrunk-switch({branch: "-"}) - Switch to previous worktree
+- worktrunk-merge() - Squash-merge into the default branch and remove the worktree
+- worktrunk-merge({target: "feature/part1"}) - Merge a stacked branch into its parent
+- worktrunk-merge({strategy: "rebase"}) - Rebase and fast-forward, keeping individual commits
+- worktrunk-merge({strategy: "merge", keepWorktree: true}) - Create a merge commit and keep the worktree
 
-Shortcuts:
-- "@" - Current branch (useful for refreshing)
-- "-" - Previous worktree (quick toggle)
+Strategies:
+- "squash" (default) - Squash all commits into one
+- "rebase" - Rebase onto the target and fast-forward, preserving commits
+- "merge" - Create a merge commit
 
-Use when you need to change context to work on a different branch.`,
+On conflicts the merge stops and the conflicted files are listed.
+
+Use this when you're done with a branch and want to land it.`,
         args: {
-          branch: tool.schema.string().describe("Branch name to switch to, or '@' for current branch, or '-' for previous worktree"),
+          target: tool.schema.string().optional().describe("Branch to merge into. Defaults to the repository's default branch."),
+          strategy: tool.schema.enum(["squash", "rebase", "merge"]).optional().describe("How to integrate the commits: 'squash' (default), 'rebase', or 'merge'"),
+          skipHooks: tool.schema.boolean().optional().describe("Skip git hooks during the merge (--no-verify). Default: false"),
+          keepWorktree: tool.schema.boolean().optional().describe("Keep the worktree after merging instead of removing it. Default: false"),
         },
         async execute(args, ctx) {
-          if (!(await isWorkTrunkInstalled())) {
-            return "Error: WorkTrunk is not installed. Please install it from https://worktrunk.dev/install"
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
           }
           
+          const strategy = args.strategy || "squash"
+          let target = args.target
           try {
-            const result = await $`wt switch --yes ${args.branch}`.quiet()
-            // Update currentBranch if not using shortcuts
-            if (args.branch !== "@" && args.branch !== "-") {
-              currentBranch = args.branch
-              lastKnownBranch = args.branch
-            } else {
-              // For shortcuts, refresh current branch after switch
-              currentBranch = await getCurrentBranch()
-              lastKnownBranch = currentBranch
+            if (!target) {
+              target = await getDefaultBranch()
+              if (!target) {
+                return "Error: Unable to determine default branch. Pass a target branch explicitly, e.g. worktrunk-merge({target: \"main\"})."
+              }
+            }
+          } catch (error) {
+            return formatCommandError(error, { action: "getting default branch" })
+          }
+          
+          const dir = await getToolDirectory(ctx?.sessionID)
+          const branch = await getCurrentBranch(true, dir)
+          const flags = ["--yes"]
+          if (strategy === "rebase") {
+            flags.push("--no-squash")
+          } else if (strategy === "merge") {
+            flags.push("--no-squash", "--no-ff")
+          }
+          if (args.skipHooks) {
+            flags.push("--no-verify")
+          }
+          if (args.keepWorktree) {
+            flags.push("--no-remove")
+          }
+          
+          try {
+            // wt merges the branch of the worktree it runs in
+            const result = dir === directory
+              ? await run`wt merge ${flags} ${target}`
+              : await run`wt -C ${dir} merge ${flags} ${target}`
+            // Children of the merged branch now stack on the target
+            if (branch) {
+              const graph = await loadStack()
+              if (branch in graph || Object.values(graph).includes(branch)) {
+                await updateStack((graph) => {
+                  const updated = reparentChildren(graph, branch, target)
+                  for (const child of Object.keys(graph)) {
+                    delete graph[child]
+                  }
+                  Object.assign(graph, updated)
+                })
+              }
+            }
+            // The merged worktree is removed unless kept - refresh tracking like worktrunk-remove
+            if (!args.keepWorktree) {
+              await forgetWorktree(branch, dir)
+            }
+            if (!args.keepWorktree && dir === directory) {
+              currentBranch = null
+              lastKnownBranch = null
+              const newBranch = await getCurrentBranch(true)
+              if (newBranch) {
+                currentBranch = newBranch
+                lastKnownBranch = newBranch
+              }
             }
-            updateStatus("💬")
-            return `Switched to branch: ${args.branch}\n${result.stdout.toString()}`
+            const removal = args.keepWorktree ? "worktree kept" : "worktree removed"
+            return `Merged ${branch ? `'${branch}'` : "current branch"} into '${target}' (${strategy}, ${removal})\n${result.stdout}`
           } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error)
-            return `Error switching to branch '${args.branch}': ${errorMsg}\n\nTroubleshooting:\n- Ensure the branch exists: wt list\n- Check branch name spelling\n- Verify you're in a WorkTrunk-managed repository`
+            if (error instanceof CommandError && error.kind === CommandErrorKind.Conflict) {
+              const files = parseConflictFiles(error.output)
+              const fileList = files.length > 0 ? files.map(file => `- ${file}`).join("\n") : "- (could not determine files; run: git status)"
+              return `Merge conflict: ${branch ? `'${branch}'` : "current branch"} into '${target}' (${strategy})\n\nConflicted files:\n${fileList}\n\nResolve the conflicts and commit, then run worktrunk-merge again.`
+            }
+            return formatCommandError(error, {
+              action: `merging into '${target}'`,
+              branch: target,
+              troubleshooting: ["Commit or stash uncommitted changes first", "Ensure the target branch exists: wt list", "Check hooks output, or retry with skipHooks: true"],
+            })
           }
         },
       }),
 
-      "worktrunk-status": tool({
-        description: `Get current WorkTrunk status for the active branch.
+      "worktrunk-stack": tool({
+        description: `Show and restack stacked branches.
 
-Example:
-- worktrunk-status() - Shows status of the current branch
+The plugin records each branch's base when it is created with worktrunk-create({base: ...}).
 
-Use this to check the current branch's worktree status, including any status markers set by the plugin (🤖 working, 💬 waiting).`,
-        args: {},
+Examples:
+- worktrunk-stack() - Show the stack as a tree, marking branches that need restacking
+- worktrunk-stack({action: "restack"}) - Rebase every branch stacked on the current branch, in order
+- worktrunk-stack({action: "restack", branch: "feature/part1"}) - Restack the chain above feature/part1
+
+A branch needs restacking when its parent has moved (the parent's tip is no longer in its history).
+Restacking rebases part2 onto part1, then part3 onto part2, and so on, in each branch's worktree.
+Only each branch's own commits are replayed (git rebase --onto), so an amended or squash-merged
+parent's old commits aren't carried along.
+It stops at the first conflict and reports the branch, worktree and conflicted files. It also stops
+before a worktree with uncommitted changes, another session's active marker or claim, or a git
+operation in progress.`,
+        args: {
+          action: tool.schema.enum(["show", "restack"]).optional().describe("'show' (default) to display the stack, 'restack' to rebase the chain"),
+          branch: tool.schema.string().optional().describe("Branch whose descendants to restack. Defaults to the current branch. Use '@' for current branch."),
+        },
         async execute(args, ctx) {
-          if (!(await isWorkTrunkInstalled())) {
-            return "Error: WorkTrunk is not installed. Please install it from https://worktrunk.dev/install"
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
           }
           
-          try {
-            // Always refresh branch to handle external changes
-            currentBranch = await getCurrentBranch()
-            lastKnownBranch = currentBranch
-            
-            if (!currentBranch) {
+          const graph = await loadStack()
+          if (Object.keys(graph).length === 0) {
+            return "No stacked branches recorded. Create one with worktrunk-create({branch: \"feature/part2\", base: \"feature/part1\"})."
+          }
+          
+          // Whether a branch still contains its parent's tip
+          const needsRestack = async (branch: string): Promise<boolean | null> => {
+            try {
+              await run`git -C ${directory} merge-base --is-ancestor ${graph[branch]} ${branch}`
+              return false
+            } catch (error) {
+              // Exit code 1 means "not an ancestor"; anything else (e.g. a missing branch) is unknown
+              return error instanceof CommandError && error.kind === CommandErrorKind.Failed && error.exitCode === 1 ? true : null
+            }
+          }
+          
+          if ((args.action || "show") === "show") {
+            const status = new Map<string, boolean | null>()
+            for (const branch of Object.keys(graph)) {
+              status.set(branch, await needsRestack(branch))
+            }
+            const tree = formatStackTree(graph, (branch) => {
+              const state = status.get(branch)
+              if (state === true) return "  (needs restack)"
+              if (state === null) return "  (missing)"
+              return ""
+            })
+            const stale = [...status.entries()].filter(([, state]) => state === true).map(([branch]) => branch)
+            const summary = stale.length > 0
+              ? `\n\nNeeds restack: ${stale.join(", ")}\nRun worktrunk-stack({action: "restack", branch: <parent>}) to rebase them.`
+              : "\n\nAll stacked branches are up to date with their parents."
+            return tree + summary
+          }
+          
+          let root = args.branch
+          if (!root || root === "@") {
+            root = await getCurrentBranch(true, await getToolDirectory(ctx?.sessionID)) ?? undefined
+            if (!root) {
               return "Not in a git repository or no branch detected.\n\nTroubleshooting:\n- Ensure you're in a git repository: git rev-parse --git-dir\n- Check you're on a branch (not detached HEAD): git branch"
             }
-
-            const result = await $`wt list --branch ${currentBranch}`.quiet()
-            return result.stdout.toString() || `Current branch: ${currentBranch}`
+          }
+          const chain = getDescendants(graph, root)
+          if (chain.length === 0) {
+            return `No branches are stacked on '${root}'.`
+          }
+          
+          let worktrees: WorktreeInfo[]
+          try {
+            worktrees = (await listWorktrees()).worktrees
           } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error)
-            return `Error getting WorkTrunk status: ${errorMsg}`
+            return formatCommandError(error, { action: "running 'wt list'" })
+          }
+          
+          const commonDir = await getGitCommonDir()
+          const bases = commonDir ? await readJson<StackBases>(getStatePath(commonDir, STACK_BASES_FILE), {}) : {}
+          const check = await loadBusyCheck(ctx?.sessionID)
+          const done: string[] = []
+          const report = () => done.length > 0 ? `Restacked: ${done.join(", ")}\n` : ""
+          for (const branch of chain) {
+            const parent = graph[branch]
+            const wt = worktrees.find(wt => wt.branch === branch)
+            const path = wt?.path
+            if (!wt || !path) {
+              return `${report()}Stopped at '${branch}': it has no worktree to rebase in. Create one with worktrunk-create({branch: "${branch}"}) and restack again.`
+            }
+            const busy = await findBusyReason(wt, branch, path, check)
+            if (busy) {
+              return `${report()}Stopped at '${branch}': ${busy}. Restack again from '${parent}' once the worktree is free.`
+            }
+            try {
+              // Replay only the branch's own commits: those after the parent
+              // commit it was based on, so an amended parent isn't replayed
+              const oldBase = await findStackBase(path, branch, parent, bases[branch])
+              await run`git -C ${path} rebase --onto ${parent} ${oldBase}`
+              done.push(branch)
+              const parentTip = await resolveCommit(parent, path)
+              if (parentTip) {
+                await updateStackBases((bases) => { bases[branch] = parentTip })
+              }
+            } catch (error) {
+              if (error instanceof CommandError && error.kind === CommandErrorKind.Conflict) {
+                const files = parseConflictFiles(error.output)
+                const fileList = files.length > 0 ? files.map(file => `- ${file}`).join("\n") : "- (run: git status)"
+                return `${report()}Conflict rebasing '${branch}' onto '${parent}' in ${path}\n\nConflicted files:\n${fileList}\n\nResolve the conflicts and run 'git rebase --continue' (or 'git rebase --abort'), then restack again from '${parent}'.`
+              }
+              return `${report()}Stopped at '${branch}'.\n${formatCommandError(error, { action: `rebasing '${branch}' onto '${parent}'`, branch: parent })}`
+            }
           }
+          return `Restacked ${done.length} branch(es) above '${root}' in order: ${done.join(" -> ")}`
         },
       }),
 
-      "worktrunk-status-update": tool({
-        description: `Manually update WorkTrunk status marker for the current branch.
+      "worktrunk-diff": tool({
+        description: `Summarize what a branch changed against its base.
 
 Examples:
-- worktrunk-status-update({marker: "🤖"}) - Set working marker
-- worktrunk-status-update({marker: "💬"}) - Set waiting marker
-- worktrunk-status-update({marker: ""}) - Clear marker
-- worktrunk-status-update({marker: "🚧", branch: "feature/x"}) - Update specific branch
+- worktrunk-diff() - Changes on the current branch vs its stack parent or the default branch
+- worktrunk-diff({branch: "feature/api"}) - Changes on another branch (no worktree needed)
+- worktrunk-diff({branch: "-"}) - Changes on the previous branch
+- worktrunk-diff({branch: "feature/part2", base: "main"}) - Compare against an explicit base
 
-Use cases:
-- Explicit status changes when automatic tracking misses updates
-- Recovery from missed status updates
-- Custom status markers for specific workflows
-- Setting status on branches other than current
+Shortcuts:
+- "@" - Current branch
+- "-" - Previous branch
 
-The plugin automatically manages status markers, but this tool allows manual control when needed.`,
+Returns changed files with added/deleted line counts, a short commit log, and a size-capped unified diff.
+Only committed changes are compared (base...branch, i.e. since the merge base).
+
+Use this before switching to or merging a branch to see what it contains.`,
         args: {
-          marker: tool.schema.string().describe("Status marker to set (e.g., '🤖', '💬', or '' to clear). Use empty string to clear marker."),
-          branch: tool.schema.string().optional().describe("Branch name to update. Defaults to current branch. Use '@' for current branch."),
+          branch: tool.schema.string().optional().describe("Branch to inspect, '@' for current branch (default), or '-' for previous branch"),
+          base: tool.schema.string().optional().describe("Base to compare against. Defaults to the recorded stack parent, then the default branch."),
+          maxDiffBytes: tool.schema.number().optional().describe("Maximum size of the unified diff in bytes. Default: 20000. Use 0 to omit the diff."),
+          maxCommits: tool.schema.number().optional().describe("Maximum number of commits to list. Default: 20"),
         },
         async execute(args, ctx) {
-          if (!(await isWorkTrunkInstalled())) {
-            return "Error: WorkTrunk is not installed. Please install it from https://worktrunk.dev/install"
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
+          }
+          
+          const dir = await getToolDirectory(ctx?.sessionID)
+          const branch = await resolveBranchShortcut(args.branch || "@", dir)
+          if (!branch) {
+            return args.branch === "-"
+              ? "Error: No previous branch recorded. Use worktrunk-switch first, or pass a branch name."
+              : "Not in a git repository or no branch detected.\n\nTroubleshooting:\n- Ensure you're in a git repository: git rev-parse --git-dir\n- Check you're on a branch (not detached HEAD): git branch"
           }
           
+          let base = args.base
+          let baseSource = "explicit"
           try {
-            let targetBranch = args.branch
-            
-            // Handle shortcuts and defaults
-            if (!targetBranch || targetBranch === "@") {
-              targetBranch = await getCurrentBranch() ?? undefined
-              if (!targetBranch) {
-                return "Not in a git repository or no branch detected.\n\nTroubleshooting:\n- Ensure you're in a git repository: git rev-parse --git-dir\n- Check you're on a branch (not detached HEAD): git branch"
+            if (!base) {
+              const parent = (await loadStack())[branch]
+              if (parent) {
+                base = parent
+                baseSource = "stack parent"
+              } else {
+                base = await getDefaultBranch()
+                baseSource = "default branch"
               }
             }
+            if (!base) {
+              return "Error: Unable to determine a base branch. Pass one explicitly, e.g. worktrunk-diff({base: \"main\"})."
+            }
+            if (base === branch) {
+              return `'${branch}' is the base itself - nothing to compare. Pass a different base.`
+            }
             
-            // Update the marker directly using wt command
-            const markerValue = args.marker || ""
-            await $`wt config state marker set "${markerValue}" --branch ${targetBranch}`.quiet()
+            const range = `${base}...${branch}`
+            const numstat = await run`git -C ${dir} diff --numstat ${range}`
+            const files = parseNumstat(numstat.stdout)
+            const maxCommits = args.maxCommits ?? 20
+            const log = await run`git -C ${dir} log --oneline --no-decorate -n ${String(maxCommits)} ${base}..${branch}`
+            const commits = log.stdout.trim()
             
-            // Also update currentBranch tracking if updating current branch
-            if (!args.branch || args.branch === "@") {
-              currentBranch = targetBranch
-              lastKnownBranch = targetBranch
+            const added = files.reduce((sum, file) => sum + (file.added ?? 0), 0)
+            const deleted = files.reduce((sum, file) => sum + (file.deleted ?? 0), 0)
+            const lines = [
+              `Diff of '${branch}' against '${base}' (${baseSource})`,
+              `${files.length} file(s) changed, +${added} -${deleted}`,
+            ]
+            if (files.length > 0) {
+              lines.push("", "Files:")
+              for (const file of files) {
+                const counts = file.added === null ? "binary" : `+${file.added} -${file.deleted}`
+                lines.push(`  ${counts.padEnd(12)} ${file.path}`)
+              }
             }
+            lines.push("", "Commits:", commits || "(none)")
             
-            const markerDisplay = args.marker || "(cleared)"
-            return `Updated status marker for branch '${targetBranch}': ${markerDisplay}`
+            const maxDiffBytes = args.maxDiffBytes ?? 20000
+            if (maxDiffBytes > 0 && files.length > 0) {
+              const diff = await run`git -C ${dir} diff ${range}`
+              const capped = truncateText(diff.stdout, maxDiffBytes)
+              lines.push("", capped.truncated ? `Diff (truncated to ${maxDiffBytes} bytes):` : "Diff:", capped.text)
+            }
+            return lines.join("\n")
           } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error)
-            return `Error updating status marker: ${errorMsg}`
+            return formatCommandError(error, {
+              action: `diffing '${branch}' against '${base}'`,
+              branch,
+              troubleshooting: ["Ensure both branches exist: git branch --list", "Check the base name spelling"],
+            })
           }
         },
       }),
 
-      "worktrunk-create": tool({
-        description: `Create a new WorkTrunk worktree for a branch.
+      "worktrunk-sync": tool({
+        description: `Fetch once, then bring every worktree up to date with its base.
 
-Examples:
-- worktrunk-create({branch: "feature/new-feature"}) - Create worktree from default branch
-- worktrunk-create({branch: "feature/part2", base: "@"}) - Create stacked branch from current HEAD
-- worktrunk-create({branch: "feature/part2", base: "feature/part1"}) - Create stacked branch from another branch
-- worktrunk-create({branch: "@"}) - Create worktree for current branch
+Each worktree's base is its recorded stack parent, else the default branch's upstream (e.g. origin/main).
+The default branch itself is only fast-forwarded to its upstream. Stack parents are synced before their children.
 
-Stacked branches:
-- Use base: "@" to branch from current HEAD (enables incremental feature development)
-- Chain multiple stacked branches: part1 -> part2 -> part3
+Examples:
+- worktrunk-sync() - Fetch and rebase every worktree onto its base
+- worktrunk-sync({dryRun: true}) - Fetch and show what would change, without touching worktrees
+- worktrunk-sync({strategy: "ff"}) - Only fast-forward; skip branches with local commits
+- worktrunk-sync({strategy: "merge"}) - Merge the base into diverged branches
 
-Shortcuts:
-- "@" - Current branch name
+Skipped: worktrees with uncommitted changes, with an active 🤖 marker (an agent is working there),
+or in the middle of a rebase/merge. If a rebase or merge conflicts, it is aborted and the worktree
+is reported as conflicted with the files involved.
 
-Use this when starting work on a new feature branch.`,
+Returns a table of per-worktree results (updated, up to date, skipped and why, conflicted).`,
         args: {
-          branch: tool.schema.string().describe("Branch name to create worktree for, or '@' for current branch"),
-          base: tool.schema.string().optional().describe("Base branch or commit to branch from. Use '@' to branch from current HEAD (stacked branches)."),
-          skipHooks: tool.schema.boolean().optional().describe("Skip git hooks during creation (--no-verify). Default: false"),
+          strategy: tool.schema.enum(["ff", "rebase", "merge"]).optional().describe("How to update branches with local commits: 'rebase' (default), 'merge', or 'ff' to only fast-forward"),
+          dryRun: tool.schema.boolean().optional().describe("Fetch and report what would change without updating any worktree. Default: false"),
         },
         async execute(args, ctx) {
-          if (!(await isWorkTrunkInstalled())) {
-            return "Error: WorkTrunk is not installed. Please install it from https://worktrunk.dev/install"
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
           }
           
-          // Validate branch name
-          if (args.branch && !/^[@\w\/\-\.]+$/.test(args.branch) && args.branch !== "@") {
-            return `Error: Invalid branch name '${args.branch}'. Branch names should only contain letters, numbers, slashes, hyphens, dots, or '@' for current branch.`
+          const strategy = args.strategy || "rebase"
+          try {
+            await run`git -C ${directory} fetch --all --prune`
+          } catch (error) {
+            return formatCommandError(error, {
+              action: "fetching from remotes",
+              troubleshooting: ["Check the remotes and your access: git remote -v", "Fetch manually to see the full error: git fetch --all"],
+            })
           }
           
+          let worktrees: WorktreeInfo[]
+          let defaultBranch: string
           try {
-            const flags = args.skipHooks ? ['--yes', '--no-verify'] : ['--yes']
-            if (args.base) {
-              const result = await $`wt switch --create ${flags} ${args.branch} --base=${args.base}`.quiet()
-              currentBranch = args.branch
-              lastKnownBranch = args.branch
-              updateStatus("💬")
-              const baseInfo = args.base === "@" ? "current HEAD" : args.base
-              return `Created and switched to branch: ${args.branch} (from ${baseInfo})\n${result.stdout.toString()}`
-            } else {
-              const result = await $`wt switch --create ${flags} ${args.branch}`.quiet()
-              currentBranch = args.branch
-              lastKnownBranch = args.branch
-              updateStatus("💬")
-              return `Created and switched to branch: ${args.branch}\n${result.stdout.toString()}`
-            }
+            worktrees = (await listWorktrees()).worktrees
+            defaultBranch = await getDefaultBranch()
           } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error)
-            if (errorMsg.includes("already exists")) {
-              return `Error: Branch '${args.branch}' already exists. Use worktrunk-switch to switch to it, or choose a different name.`
+            return formatCommandError(error, { action: "listing worktrees to sync" })
+          }
+          if (!defaultBranch) {
+            return "Error: Unable to determine default branch. WorkTrunk may not be initialized in this repository."
+          }
+          
+          // Follow the default branch's upstream so a stale local default branch doesn't matter
+          let upstream = defaultBranch
+          try {
+            upstream = (await run`git -C ${directory} rev-parse --abbrev-ref ${`${defaultBranch}@{upstream}`}`).stdout.trim() || defaultBranch
+          } catch {
+            // No upstream - sync against the local default branch
+          }
+          
+          const graph = await loadStack()
+          const check = await loadBusyCheck(ctx?.sessionID)
+          const depth = (wt: WorktreeInfo) => wt.branch ? getAncestors(graph, wt.branch).length : 0
+          const results: SyncResult[] = []
+          for (const wt of [...worktrees].sort((a, b) => depth(a) - depth(b))) {
+            if (!wt.path) {
+              continue // Branch without a worktree
+            }
+            if (!wt.branch) {
+              results.push({ branch: `(detached) ${wt.path}`, status: "skipped", detail: "detached HEAD" })
+              continue
+            }
+            const isDefault = wt.branch === defaultBranch
+            const base = isDefault ? upstream : graph[wt.branch] ?? upstream
+            if (base === wt.branch) {
+              results.push({ branch: wt.branch, status: "skipped", detail: "no upstream to sync from" })
+              continue
+            }
+            try {
+              results.push(await syncWorktree(wt, wt.branch, wt.path, base, isDefault ? "ff" : strategy, args.dryRun ?? false, check))
+            } catch (error) {
+              // The timed-out command may still be changing this worktree
+              results.push({ branch: wt.branch, status: "failed", detail: error instanceof Error ? error.message : String(error) })
+              return `${formatSyncTable(results, args.dryRun)}\n\nStopped after a timeout in ${wt.path}: the command may still be running there, so the remaining worktrees were not synced. Check it with git status, then sync again.`
             }
-            return `Error creating worktree for branch '${args.branch}': ${errorMsg}`
           }
+          return formatSyncTable(results, args.dryRun)
         },
       }),
 
-      "worktrunk-remove": tool({
-        description: `Remove a WorkTrunk worktree.
+      "worktrunk-reap": tool({
+        description: `Clear status markers left behind by crashed or abandoned OpenCode sessions.
+
+Every marker the plugin sets has an owner record (process ID, session ID, heartbeat).
+A marker is stale when its owner process is gone or its heartbeat is older than the threshold.
+The plugin also sweeps automatically on startup and periodically.
 
 Examples:
-- worktrunk-remove({branch: "feature/old"}) - Remove worktree for feature/old
-- worktrunk-remove({branch: "@"}) - Remove current worktree
+- worktrunk-reap() - Clear stale markers and report what was cleared
+- worktrunk-reap({dryRun: true}) - Only report stale markers
+- worktrunk-reap({staleAfterMinutes: 60}) - Use a custom heartbeat threshold
 
-Shortcuts:
-- "@" - Current worktree
+Use this when 🤖 markers in wt list look wrong after a crash.`,
+        args: {
+          dryRun: tool.schema.boolean().optional().describe("Report stale markers without clearing them. Default: false"),
+          staleAfterMinutes: tool.schema.number().optional().describe("Heartbeat age after which a marker is stale. Defaults to the configured reaper.staleAfterMinutes"),
+        },
+        async execute(args, ctx) {
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
+          }
+          if (!(await getGitCommonDir())) {
+            return "Not in a git repository.\n\nTroubleshooting:\n- Ensure you're in a git repository: git rev-parse --git-dir"
+          }
+          
+          const minutes = args.staleAfterMinutes ?? config.reaper.staleAfterMinutes
+          if (!(minutes > 0)) {
+            return "Error: staleAfterMinutes must be a positive number."
+          }
+          
+          const stale = await sweepStaleMarkers(minutes * 60000, args.dryRun)
+          if (stale.length === 0) {
+            return "No stale markers found."
+          }
+          const lines = stale.map(({ branch, owner, reason }) =>
+            `- ${branch} ${owner.marker} (${reason}${owner.sessionID ? `, session ${owner.sessionID}` : ""})`)
+          const heading = args.dryRun
+            ? `Found ${stale.length} stale marker(s) (dry run, nothing cleared):`
+            : `Cleared ${stale.length} stale marker(s):`
+          return `${heading}\n${lines.join("\n")}`
+        },
+      }),
 
-Use this to clean up worktrees when you're done with a branch. The plugin will automatically detect if you're no longer in a git repo after removal.`,
+      "worktrunk-env": tool({
+        description: `Show or reassign the ports and environment variables of a worktree.
+
+Each worktree gets its own block of ports and variables, exported at the start of every bash command
+run in it, so dev servers in sibling worktrees don't fight over the same port:
+- PORT, and WORKTRUNK_PORTS with the whole block (e.g. 3130-3139) for extra services
+- DATABASE_URL with the database name suffixed by the branch (if env.databaseUrl is configured)
+- COMPOSE_PROJECT_NAME named after the repository and branch
+
+The default branch keeps env.basePort; other branches get a block chosen from the branch name.
+Requires an "env" section in .opencode/worktrunk.json.
+
+Examples:
+- worktrunk-env() - Show this worktree's variables
+- worktrunk-env({all: true}) - Show the port blocks of every worktree
+- worktrunk-env({reassign: true}) - Move this worktree to the next free block (e.g. a port is used by another program)
+- worktrunk-env({branch: "feature/api", port: 4200}) - Give feature/api the block starting at 4200
+
+Restart servers already running in the worktree after reassigning.`,
         args: {
-          branch: tool.schema.string().describe("Branch name or worktree to remove, or '@' for current worktree"),
+          branch: tool.schema.string().optional().describe("Branch whose worktree to show. Default: the worktree this session works in"),
+          all: tool.schema.boolean().optional().describe("Show the port blocks of all worktrees. Default: false"),
+          reassign: tool.schema.boolean().optional().describe("Move the worktree to the next free port block. Default: false"),
+          port: tool.schema.number().optional().describe("Move the worktree to the block starting at this port"),
         },
         async execute(args, ctx) {
-          if (!(await isWorkTrunkInstalled())) {
-            return "Error: WorkTrunk is not installed. Please install it from https://worktrunk.dev/install"
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
+          }
+          if (!config.env.enabled) {
+            return `Per-worktree environments are off. Add an "env" section to ${CONFIG_PATH} to turn them on, e.g. {"env": {"basePort": 3000}}.`
+          }
+          const commonDir = await getGitCommonDir()
+          if (!commonDir) {
+            return "Not in a git repository.\n\nTroubleshooting:\n- Ensure you're in a git repository: git rev-parse --git-dir"
+          }
+          const file = getStatePath(commonDir, ENV_REGISTRY_FILE)
+          if (args.all) {
+            return formatRegistry(await readJson<EnvRegistry>(file, {}), config.env)
           }
           
-          try {
-            const result = await $`wt remove --yes ${args.branch}`.quiet()
-            // If removing current worktree, clear currentBranch and refresh
-            if (args.branch === "@" || args.branch === currentBranch) {
-              currentBranch = null
-              lastKnownBranch = null
-              // Refresh to see if we're still in a repo
-              const newBranch = await getCurrentBranch()
-              if (newBranch) {
-                currentBranch = newBranch
-                lastKnownBranch = newBranch
+          const branch = args.branch ?? (ctx?.sessionID ? await resolveMarkerBranch(await getSession(ctx.sessionID)) : await getCurrentBranch())
+          if (!branch) {
+            return "Error: No branch checked out here. Pass branch to pick a worktree."
+          }
+          
+          let moved = ""
+          if (args.port !== undefined || args.reassign) {
+            const requested = args.port
+            const last = (requested ?? 0) + config.env.blockSize - 1
+            if (requested !== undefined && (!Number.isInteger(requested) || requested < 1024 || last > 65535)) {
+              return `Error: port must be a whole number from 1024 to ${65536 - config.env.blockSize}, so the block of ${config.env.blockSize} fits.`
+            }
+            const isDefault = await isDefaultBranch(branch)
+            // Check and take the block in one locked update, so another
+            // worktree can't take it in between
+            const outcome: { port: number | null; current: number | null; error: string } = { port: null, current: null, error: "" }
+            await updateEnvRegistry((registry) => {
+              outcome.current = registry[branch]?.port ?? null
+              if (requested !== undefined) {
+                const taken = findOverlap(registry, branch, requested, config.env)
+                if (taken) {
+                  outcome.error = `Error: Ports ${requested}-${last} overlap the block of '${taken}' (${registry[taken].port}-${registry[taken].port + config.env.blockSize - 1}). Pick another port, or see worktrunk-env({all: true}).`
+                  return
+                }
+                outcome.port = requested
+              } else {
+                outcome.port = chooseBlock(registry, branch, config.env, isDefault, outcome.current ?? config.env.basePort)
+                if (outcome.port === null) {
+                  outcome.error = "Error: Every port block is taken. Free some with worktrunk-prune, or set a different env.basePort."
+                  return
+                }
               }
+              registry[branch] = { port: outcome.port, assignedAt: Date.now() }
+            })
+            if (outcome.error) {
+              return outcome.error
             }
-            return `Removed worktree: ${args.branch}\n${result.stdout.toString()}`
-          } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error)
-            if (errorMsg.includes("not found") || errorMsg.includes("does not exist")) {
-              return `Error: Worktree '${args.branch}' not found. Use 'worktrunk-list' to see available worktrees.`
+            if (outcome.port === null) {
+              return "Error: Couldn't update the port registry. See the OpenCode logs for details."
             }
-            return `Error removing worktree '${args.branch}': ${errorMsg}`
+            moved = `Moved ${branch} from ${outcome.current === null ? "no ports" : `port ${outcome.current}`} to port ${outcome.port}. Restart servers already running in the worktree.\n\n`
+          }
+          
+          const vars = await getWorktreeEnv(branch)
+          if (!vars) {
+            return "Error: Every port block is taken. Free some with worktrunk-prune, or set a different env.basePort."
           }
+          return `${moved}${formatEnv(branch, vars)}\n\nExported at the start of bash commands run in this worktree.`
         },
       }),
 
@@ -500,17 +3052,19 @@ Use cases:
 This tool works regardless of whether the default is 'main', 'master', or any other name.`,
         args: {},
         async execute(args, ctx) {
-          if (!(await isWorkTrunkInstalled())) {
-            return "Error: WorkTrunk is not installed. Please install it from https://worktrunk.dev/install"
+          const unavailable = await checkWorkTrunk()
+          if (unavailable) {
+            return unavailable
           }
           
           try {
-            const result = await $`wt config state default-branch`.quiet()
-            const branch = result.stdout.toString().trim()
+            const branch = await getDefaultBranch()
             return branch || "Unable to determine default branch. WorkTrunk may not be initialized in this repository."
           } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error)
-            return `Error getting default branch: ${errorMsg}\n\nTroubleshooting:\n- Ensure WorkTrunk is initialized: wt list\n- Check repository configuration: wt config state`
+            return formatCommandError(error, {
+              action: "getting default branch",
+              troubleshooting: ["Ensure WorkTrunk is initialized: wt list", "Check repository configuration: wt config state"],
+            })
           }
         },
       }),
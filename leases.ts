@@ -0,0 +1,63 @@
+/**
+ * Worktree leases: a session claims the worktree it works in, so another
+ * session doesn't switch into it and edit the same files. Leases expire
+ * unless renewed, and die with the OpenCode process that holds them.
+ */
+
+import { formatDuration } from "./dashboard"
+import { isProcessAlive } from "./owners"
+
+export interface Lease {
+  sessionID: string
+  pid: number // OpenCode process holding the lease
+  claimedAt: number // ms since epoch
+  expiresAt: number // ms since epoch, pushed back while the session is active
+}
+
+// Branch -> lease on its worktree
+export type Leases = Record<string, Lease>
+
+export const LEASES_FILE = "worktree-leases.json"
+
+// Outcome of a claim. `replaced` holds the leases the claim overwrote or
+// released, so a claim whose action failed can be undone.
+export interface LeaseClaim {
+  refused: Lease | null // live lease of another session that kept the claim
+  stolen: Lease | null // live lease of another session that was taken over
+  lease: Lease | null // the claim, unless refused
+  replaced: Leases
+}
+
+export interface LeaseConfig {
+  ttlMinutes: number // a lease lapses after this long without session activity
+}
+
+export const DEFAULT_LEASES: LeaseConfig = {
+  ttlMinutes: 30,
+}
+
+// A lease counts until it expires or its process is gone
+export const isLeaseLive = (lease: Lease, now: number, isAlive: (pid: number) => boolean = isProcessAlive): boolean =>
+  lease.expiresAt > now && isAlive(lease.pid)
+
+// The live lease another session holds on `branch`, if any. Without a
+// session ID every live lease belongs to someone else.
+export const otherHolder = (
+  leases: Leases,
+  branch: string,
+  sessionID: string | undefined,
+  now: number,
+  isAlive: (pid: number) => boolean = isProcessAlive,
+): Lease | null => {
+  const lease = leases[branch]
+  return lease && lease.sessionID !== sessionID && isLeaseLive(lease, now, isAlive) ? lease : null
+}
+
+// "session ses_1 (process 4242, expires in 12m)"
+export const describeHolder = (lease: Lease, now: number): string =>
+  `session ${lease.sessionID} (process ${lease.pid}, expires in ${formatDuration(lease.expiresAt - now)})`
+
+// Refusal for a worktree leased by another session. `suggest` renders the
+// tool call with extra arguments.
+export const formatLeaseRefusal = (action: string, lease: Lease, now: number, suggest: (extra: string) => string): string =>
+  `Error: Refusing to ${action}:\n- The worktree is claimed by ${describeHolder(lease, now)}\n\nOptions:\n- Work on another branch, or wait until that session releases it or goes idle\n- Take the claim over: ${suggest("steal: true")}`
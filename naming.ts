@@ -0,0 +1,151 @@
+/**
+ * Branch naming: git's ref-format rules, the team policy configured under
+ * "naming" in `.opencode/worktrunk.json`, and branch names generated from a
+ * free-text task description.
+ */
+
+export interface NamingConfig {
+  prefixes: string[] // a new branch must start with one of these ("feat/"); empty allows any
+  maxLength: number | null // longest allowed name, null for no limit
+  lowercase: boolean // reject names with uppercase letters
+}
+
+export const DEFAULT_NAMING: NamingConfig = {
+  prefixes: [],
+  maxLength: null,
+  lowercase: false,
+}
+
+// Longest slug generated from a task when the policy sets no maxLength
+const SLUG_LENGTH = 40
+
+// Why git would reject `name` as a branch name (see git check-ref-format);
+// empty when it's valid
+export const checkRefFormat = (name: string): string[] => {
+  const problems: string[] = []
+  if (name === "") {
+    return ["it is empty"]
+  }
+  if (name === "@") {
+    problems.push("'@' alone is not a branch name")
+  }
+  if (name.startsWith("-")) {
+    problems.push("it can't start with '-'")
+  }
+  if (name.startsWith("/") || name.endsWith("/")) {
+    problems.push("it can't start or end with '/'")
+  }
+  if (name.includes("//")) {
+    problems.push("it can't contain '//'")
+  }
+  if (name.endsWith(".")) {
+    problems.push("it can't end with '.'")
+  }
+  if (name.includes("..")) {
+    problems.push("it can't contain '..'")
+  }
+  if (name.includes("@{")) {
+    problems.push("it can't contain '@{'")
+  }
+  const components = name.split("/")
+  if (components.some(component => component.startsWith("."))) {
+    problems.push("no part between slashes can start with '.'")
+  }
+  if (components.some(component => component.endsWith(".lock"))) {
+    problems.push("no part between slashes can end with '.lock'")
+  }
+  // Control characters, space and the characters git reserves for revision syntax
+  const invalid = [...new Set(name.match(/[\x00-\x20\x7f~^:?*[\\]/g) ?? [])]
+  if (invalid.length > 0) {
+    const shown = invalid.map(char => (char === " " ? "space" : /[\x00-\x1f\x7f]/.test(char) ? "control characters" : `'${char}'`))
+    problems.push(`it can't contain ${[...new Set(shown)].join(", ")}`)
+  }
+  return problems
+}
+
+// Why `name` breaks the naming policy; empty when it complies
+export const checkNamingPolicy = (name: string, policy: NamingConfig): string[] => {
+  const problems: string[] = []
+  if (policy.prefixes.length > 0 && !policy.prefixes.some(prefix => name.startsWith(prefix))) {
+    problems.push(`it must start with ${policy.prefixes.map(prefix => `'${prefix}'`).join(" or ")}`)
+  }
+  if (policy.maxLength !== null && name.length > policy.maxLength) {
+    problems.push(`it is ${name.length} characters long, the limit is ${policy.maxLength}`)
+  }
+  if (policy.lowercase && name !== name.toLowerCase()) {
+    problems.push("it must be lowercase")
+  }
+  return problems
+}
+
+// Both git's rules and the policy
+export const checkBranchName = (name: string, policy: NamingConfig): string[] =>
+  [...checkRefFormat(name), ...checkNamingPolicy(name, policy)]
+
+// Branch names from `git for-each-ref --format=%(refname) refs/heads refs/remotes`,
+// with remote branches under their name without the remote
+export const parseBranchRefs = (output: string): Set<string> => {
+  const branches = new Set<string>()
+  for (const line of output.split("\n")) {
+    const ref = line.trim()
+    if (ref.startsWith("refs/heads/")) {
+      branches.add(ref.slice("refs/heads/".length))
+    } else if (ref.startsWith("refs/remotes/")) {
+      const branch = ref.split("/").slice(3).join("/")
+      if (branch && branch !== "HEAD") {
+        branches.add(branch)
+      }
+    }
+  }
+  return branches
+}
+
+// Lowercase words of `text` joined with "-", cut at a word boundary to fit
+// `maxLength`
+export const slugify = (text: string, maxLength: number): string => {
+  const words = text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // accents
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+  let slug = ""
+  for (const word of words) {
+    const next = slug ? `${slug}-${word}` : word
+    if (next.length > maxLength) {
+      // A single over-long first word is cut rather than dropped
+      return slug || word.slice(0, maxLength)
+    }
+    slug = next
+  }
+  return slug
+}
+
+// The prefix for a generated name: the one whose word opens the task
+// ("fix the login redirect" -> "fix/"), else the first configured prefix
+const choosePrefix = (words: string[], prefixes: string[]): { prefix: string; matched: boolean } => {
+  const first = words[0]?.toLowerCase().replace(/[^a-z0-9]/g, "")
+  const matching = prefixes.find(prefix => prefix.replace(/[\/\-_.]+$/, "").toLowerCase() === first)
+  return matching ? { prefix: matching, matched: true } : { prefix: prefixes[0] ?? "", matched: false }
+}
+
+// Generate a branch name for a task that complies with the policy and isn't
+// in `existing`; a numeric suffix ("-2") makes it unique. Returns null when
+// the task has no words to build a name from.
+export const generateBranchName = (task: string, policy: NamingConfig, existing: Set<string>): string | null => {
+  const words = task.trim().split(/\s+/)
+  const { prefix, matched } = choosePrefix(words, policy.prefixes)
+  const rest = matched ? words.slice(1).join(" ") : task
+  const room = Math.min(policy.maxLength ?? prefix.length + SLUG_LENGTH, prefix.length + SLUG_LENGTH) - prefix.length
+  const slug = slugify(rest, room)
+  if (!slug) {
+    return null
+  }
+
+  let name = `${prefix}${slug}`
+  for (let n = 2; existing.has(name); n++) {
+    const suffix = `-${n}`
+    name = `${prefix}${slug.slice(0, room - suffix.length).replace(/-+$/, "")}${suffix}`
+  }
+  return name
+}
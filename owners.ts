@@ -0,0 +1,53 @@
+/**
+ * Owner records for markers set by the plugin. Each marker the plugin sets
+ * gets a record with the owning process, session and a heartbeat, so markers
+ * left behind by crashed OpenCode processes can be found and cleared.
+ */
+
+export interface MarkerOwner {
+  pid: number
+  sessionID: string | null
+  marker: string
+  heartbeat: number // ms since epoch, refreshed while the owner is alive
+}
+
+// Branch -> owner of the marker on that branch
+export type MarkerOwners = Record<string, MarkerOwner>
+
+export interface StaleMarker {
+  branch: string
+  owner: MarkerOwner
+  reason: string
+}
+
+export const OWNERS_FILE = "marker-owners.json"
+
+// Whether a process is still running. EPERM means it exists but belongs to
+// another user, which still counts as alive.
+export const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    return (error as NodeJS.ErrnoException)?.code === "EPERM"
+  }
+}
+
+// Find markers whose owner process is gone or whose heartbeat is too old
+export const findStaleMarkers = (
+  owners: MarkerOwners,
+  now: number,
+  staleAfterMs: number,
+  isAlive: (pid: number) => boolean = isProcessAlive,
+): StaleMarker[] => {
+  const stale: StaleMarker[] = []
+  for (const [branch, owner] of Object.entries(owners)) {
+    if (!isAlive(owner.pid)) {
+      stale.push({ branch, owner, reason: `owner process ${owner.pid} is gone` })
+    } else if (now - owner.heartbeat > staleAfterMs) {
+      const minutes = Math.round((now - owner.heartbeat) / 60000)
+      stale.push({ branch, owner, reason: `no heartbeat for ${minutes} min` })
+    }
+  }
+  return stale.sort((a, b) => a.branch.localeCompare(b.branch))
+}
@@ -0,0 +1,149 @@
+import { cp, lstat, mkdir, symlink } from "node:fs/promises"
+import { dirname, join } from "node:path"
+import { CommandError, CommandErrorKind, type Runner } from "./runner"
+
+/**
+ * Provisioning for new worktrees: files copied or symlinked from the main
+ * worktree, then setup commands run in the new worktree. Configured under
+ * "provision" in `.opencode/worktrunk.json` and run after worktrunk-create
+ * and worktrunk-spawn.
+ */
+
+export interface ProvisionCommand {
+  run: string // shell command, run in the new worktree
+  timeout: number | null // seconds; null uses the provision timeout
+}
+
+export interface ProvisionConfig {
+  copy: string[] // paths relative to the worktree root
+  symlink: string[]
+  commands: ProvisionCommand[]
+  timeout: number // default command timeout in seconds
+}
+
+export const DEFAULT_PROVISION: ProvisionConfig = {
+  copy: [],
+  symlink: [],
+  commands: [],
+  timeout: 600,
+}
+
+export const hasProvisioning = (config: ProvisionConfig): boolean =>
+  config.copy.length + config.symlink.length + config.commands.length > 0
+
+export type ProvisionStepKind = "copy" | "symlink" | "command"
+
+export interface ProvisionStep {
+  kind: ProvisionStepKind
+  target: string // path or command
+  status: "done" | "skipped" | "failed"
+  detail: string
+  durationMs: number
+}
+
+export interface ProvisionOptions {
+  source: string // main worktree, where copied and linked files come from
+  target: string // the new worktree
+  config: ProvisionConfig
+  // Runner that gives up after `seconds`
+  runner: (seconds: number) => Runner
+  // Progress messages, e.g. for client.app.log
+  log: (message: string) => Promise<void>
+}
+
+const exists = async (path: string): Promise<boolean> => (await lstat(path).catch(() => null)) !== null
+
+// Last lines of a failed command's output, enough to see what went wrong
+const outputTail = (output: string, lines: number = 5): string =>
+  output.trim().split("\n").slice(-lines).join("\n")
+
+const provisionFile = async (kind: "copy" | "symlink", path: string, source: string, target: string): Promise<ProvisionStep> => {
+  const started = Date.now()
+  const step = (status: ProvisionStep["status"], detail: string): ProvisionStep =>
+    ({ kind, target: path, status, detail, durationMs: Date.now() - started })
+
+  const from = join(source, path)
+  const to = join(target, path)
+  if (!(await exists(from))) {
+    return step("skipped", `not found in ${source}`)
+  }
+  if (await exists(to)) {
+    return step("skipped", "already exists")
+  }
+  try {
+    await mkdir(dirname(to), { recursive: true })
+    if (kind === "copy") {
+      await cp(from, to, { recursive: true })
+    } else {
+      await symlink(from, to)
+    }
+    return step("done", "")
+  } catch (error) {
+    return step("failed", error instanceof Error ? error.message : String(error))
+  }
+}
+
+// Run the provisioning steps: copies, then symlinks, then commands in order.
+// A failed command stops the commands after it, since later setup usually
+// depends on earlier setup; file steps never stop anything.
+export const provisionWorktree = async (options: ProvisionOptions): Promise<ProvisionStep[]> => {
+  const { source, target, config, runner, log } = options
+  const steps: ProvisionStep[] = []
+
+  for (const kind of ["copy", "symlink"] as const) {
+    for (const path of config[kind]) {
+      const step = await provisionFile(kind, path, source, target)
+      steps.push(step)
+      await log(`${kind} ${path}: ${step.status}${step.detail ? ` (${step.detail})` : ""}`)
+    }
+  }
+
+  let failed = false
+  for (const command of config.commands) {
+    if (failed) {
+      steps.push({ kind: "command", target: command.run, status: "skipped", detail: "an earlier command failed", durationMs: 0 })
+      continue
+    }
+    const seconds = command.timeout ?? config.timeout
+    await log(`running '${command.run}'`)
+    const started = Date.now()
+    try {
+      // $0 is the worktree, so the command itself needs no quoting
+      await runner(seconds)`sh -c ${`cd "$0" && ${command.run}`} ${target}`
+      steps.push({ kind: "command", target: command.run, status: "done", detail: "", durationMs: Date.now() - started })
+    } catch (error) {
+      failed = true
+      const detail = error instanceof CommandError
+        ? error.kind === CommandErrorKind.Timeout
+          ? `timed out after ${seconds}s`
+          : `exit ${error.exitCode ?? "?"}: ${outputTail(error.output)}`
+        : String(error)
+      steps.push({ kind: "command", target: command.run, status: "failed", detail, durationMs: Date.now() - started })
+    }
+    const last = steps[steps.length - 1]
+    await log(`'${command.run}': ${last.status} in ${Math.round(last.durationMs / 1000)}s`)
+  }
+  return steps
+}
+
+const VERBS: Record<ProvisionStepKind, string> = {
+  copy: "Copied",
+  symlink: "Linked",
+  command: "Ran",
+}
+
+// Render the provisioning report for tool output
+export const formatProvisionReport = (steps: ProvisionStep[]): string => {
+  const failures = steps.filter(step => step.status === "failed").length
+  const lines = steps.map(step => {
+    const what = step.kind === "command" ? `'${step.target}'` : step.target
+    if (step.status === "done") {
+      const took = step.kind === "command" ? ` (${Math.round(step.durationMs / 1000)}s)` : ""
+      return `- ${VERBS[step.kind]} ${what}${took}`
+    }
+    const label = step.status === "failed" ? "FAILED" : "Skipped"
+    return `- ${label}: ${step.kind} ${what} - ${step.detail.replace(/\n/g, "\n    ")}`
+  })
+  const summary = failures > 0 ? `Provisioning finished with ${failures} failure(s):` : "Provisioned the worktree:"
+  return `${summary}\n${lines.join("\n")}`
+}
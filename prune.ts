@@ -0,0 +1,76 @@
+/**
+ * Policy and reporting for `worktrunk-prune`, which removes worktrees whose
+ * branch is merged, whose upstream is gone, or that have gone quiet.
+ */
+
+import { formatDuration } from "./dashboard"
+import { formatTable } from "./worktrees"
+
+export interface PruneCandidate {
+  branch: string
+  merged: boolean // all commits are on the default branch
+  upstreamGone: boolean // tracks a remote branch that no longer exists
+  committedAt: number | null // last commit time, ms since epoch
+}
+
+export type PruneStatus = "removed" | "would remove" | "kept" | "failed"
+
+export interface PruneResult {
+  branch: string
+  status: PruneStatus
+  detail: string
+}
+
+// Summary order: removals first
+const STATUS_ORDER: PruneStatus[] = ["removed", "would remove", "failed", "kept"]
+
+// Why a branch can be pruned; empty when it's still in use
+export const pruneReasons = (candidate: PruneCandidate, defaultBranch: string, idleAfterMs: number, now: number): string[] => {
+  const reasons: string[] = []
+  if (candidate.merged) {
+    reasons.push(`merged into ${defaultBranch}`)
+  }
+  if (candidate.upstreamGone) {
+    reasons.push("upstream gone")
+  }
+  if (candidate.committedAt !== null && now - candidate.committedAt >= idleAfterMs) {
+    reasons.push(`no commits for ${formatDuration(now - candidate.committedAt)}`)
+  }
+  return reasons
+}
+
+// Branches whose upstream is gone, from
+// `git for-each-ref --format=%(refname:short)%09%(upstream:track) refs/heads`
+export const parseGoneBranches = (output: string): Set<string> => {
+  const gone = new Set<string>()
+  for (const line of output.split("\n")) {
+    const [branch, track] = line.split("\t")
+    if (branch?.trim() && track?.includes("[gone]")) {
+      gone.add(branch.trim())
+    }
+  }
+  return gone
+}
+
+// Render results as an aligned table with a summary line. Dry runs end with
+// how to perform the removals.
+export const formatPruneReport = (results: PruneResult[], dryRun: boolean): string => {
+  if (results.length === 0) {
+    return "No worktrees to prune."
+  }
+
+  const header = ["Branch", "Result", "Details"]
+  const rows = results.map(result => [result.branch, result.status, result.detail])
+  const table = formatTable(header, rows)
+
+  const counts = new Map<PruneStatus, number>()
+  for (const { status } of results) {
+    counts.set(status, (counts.get(status) ?? 0) + 1)
+  }
+  const summary = STATUS_ORDER.filter(status => counts.has(status)).map(status => `${counts.get(status)} ${status}`).join(", ")
+  if (!dryRun) {
+    return `${table}\n\n${summary}`
+  }
+  const next = counts.has("would remove") ? "\nCall again with confirm: true to remove them." : ""
+  return `${table}\n\nDry run, nothing removed: ${summary}${next}`
+}
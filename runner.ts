@@ -0,0 +1,235 @@
+import type { PluginInput } from "@opencode-ai/plugin"
+import { getErrorOutput, isConflictOutput, parseConflictFiles } from "./git"
+
+/**
+ * Shared runner for `wt` and `git` commands. Every command gets a timeout,
+ * its stdout/stderr/exit code captured, and failures mapped to a typed error
+ * kind so tools can report them the same way.
+ */
+
+type Shell = PluginInput["$"]
+type ShellExpression = Parameters<Shell>[1]
+
+export enum CommandErrorKind {
+  NotInstalled = "NotInstalled",
+  NotARepo = "NotARepo",
+  BranchExists = "BranchExists",
+  BranchNotFound = "BranchNotFound",
+  DirtyWorktree = "DirtyWorktree",
+  Conflict = "Conflict",
+  Timeout = "Timeout",
+  // Any other failure; check exitCode and output for details
+  Failed = "Failed",
+}
+
+export interface CommandResult {
+  command: string
+  stdout: string
+  stderr: string
+  exitCode: number
+}
+
+export class CommandError extends Error {
+  constructor(
+    readonly kind: CommandErrorKind,
+    readonly command: string,
+    message: string,
+    readonly exitCode: number | null = null,
+    readonly stdout: string = "",
+    readonly stderr: string = "",
+  ) {
+    super(message)
+    this.name = "CommandError"
+  }
+
+  // Combined output, for parsing things like conflicted files
+  get output(): string {
+    return [this.message, this.stderr.trim(), this.stdout.trim()].filter(Boolean).join("\n")
+  }
+}
+
+export const NOT_INSTALLED_MESSAGE = "Error: WorkTrunk is not installed. Please install it from https://worktrunk.dev/install"
+
+// Timeouts in seconds, keyed by command prefix ("wt merge", "git rebase").
+// The longest matching prefix wins; "default" applies to everything else.
+export type CommandTimeouts = Record<string, number>
+
+export const DEFAULT_TIMEOUTS: CommandTimeouts = {
+  default: 30,
+  // These can run hooks, fetch or rebase - give them longer
+  "wt switch": 300,
+  "wt merge": 600,
+  "wt remove": 120,
+  "git rebase": 300,
+  "git fetch": 300,
+}
+
+// Drop "-C <dir>" so "git -C /repo fetch --all" matches "git fetch" and
+// "wt -C /repo.x merge" matches "wt merge"
+const normalizeCommand = (command: string): string => command.replace(/^(git|wt) -C \S+ /, "$1 ")
+
+export const resolveTimeout = (command: string, timeouts: CommandTimeouts): number => {
+  command = normalizeCommand(command)
+  let match: string | null = null
+  for (const prefix of Object.keys(timeouts)) {
+    if (prefix === "default" || (command !== prefix && !command.startsWith(`${prefix} `))) {
+      continue
+    }
+    if (match === null || prefix.length > match.length) {
+      match = prefix
+    }
+  }
+  return timeouts[match ?? "default"] ?? DEFAULT_TIMEOUTS.default
+}
+
+// Map failure output of `wt`/`git` to an error kind. Order matters: a
+// conflict report can also mention local changes, and "command not found"
+// must not read as a missing branch.
+export const classifyFailure = (output: string): CommandErrorKind => {
+  if (/command not found|ENOENT|No such file or directory \(os error 2\)/i.test(output)) {
+    return CommandErrorKind.NotInstalled
+  }
+  if (isConflictOutput(output)) {
+    return CommandErrorKind.Conflict
+  }
+  if (/not a git repository/i.test(output)) {
+    return CommandErrorKind.NotARepo
+  }
+  if (/uncommitted changes|local changes|untracked working tree files|working tree (?:is )?(?:dirty|not clean)|contains modified or untracked files/i.test(output)) {
+    return CommandErrorKind.DirtyWorktree
+  }
+  if (/already exists/i.test(output)) {
+    return CommandErrorKind.BranchExists
+  }
+  if (/not found|does not exist|unknown revision|ambiguous argument|invalid reference|not a valid (?:object|branch) name|did not match any/i.test(output)) {
+    return CommandErrorKind.BranchNotFound
+  }
+  return CommandErrorKind.Failed
+}
+
+// Render template parts the way the shell sees them, for messages and timeouts
+const renderCommand = (strings: TemplateStringsArray, values: unknown[]): string =>
+  strings
+    .flatMap((part, i) => {
+      const value = values[i]
+      return [part, Array.isArray(value) ? value.join(" ") : value === undefined ? "" : String(value)]
+    })
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim()
+
+export type Runner = (strings: TemplateStringsArray, ...values: ShellExpression[]) => Promise<CommandResult>
+
+// Build a tagged-template runner on top of the plugin's Bun shell. Bun's
+// shell can't kill a running command, so a timed-out command is abandoned
+// and reported as a Timeout error - it may still be running. Callers that
+// change worktrees in a loop must stop on a Timeout instead of moving on
+// (see isTimeout).
+export const createRunner = ($: Shell, getTimeouts: () => CommandTimeouts = () => DEFAULT_TIMEOUTS): Runner =>
+  async (strings, ...values) => {
+    const command = renderCommand(strings, values)
+    const seconds = resolveTimeout(command, getTimeouts())
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new CommandError(CommandErrorKind.Timeout, command, `'${command}' timed out after ${seconds}s`))
+      }, seconds * 1000)
+      timer.unref?.()
+    })
+
+    try {
+      // Wrapped so synchronous throws become rejections too
+      const output = await Promise.race([(async () => $(strings, ...values).quiet())(), timeout])
+      return {
+        command,
+        stdout: output.stdout?.toString() ?? "",
+        stderr: output.stderr?.toString() ?? "",
+        exitCode: output.exitCode ?? 0,
+      }
+    } catch (error) {
+      if (error instanceof CommandError) {
+        throw error
+      }
+      const e = error as any
+      const stdout = e?.stdout?.toString?.() ?? ""
+      const stderr = e?.stderr?.toString?.() ?? ""
+      const message = stderr.trim() || (error instanceof Error ? error.message : String(error))
+      const exitCode = typeof e?.exitCode === "number" ? e.exitCode : null
+      throw new CommandError(classifyFailure(getErrorOutput(error)), command, message, exitCode, stdout, stderr)
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+// Whether an error is a timed-out command, which may still be running
+export const isTimeout = (error: unknown): error is CommandError =>
+  error instanceof CommandError && error.kind === CommandErrorKind.Timeout
+
+export interface ErrorContext {
+  action: string // e.g. "switching to branch 'feature/x'"
+  branch?: string
+  troubleshooting?: string[] // shown for failures without a kind-specific hint
+}
+
+// Kind-specific summary and hints
+const describeKind = (error: CommandError, context: ErrorContext): { summary: string; hints: string[] } => {
+  const branch = context.branch ? `'${context.branch}'` : "the branch"
+  switch (error.kind) {
+    case CommandErrorKind.NotARepo:
+      return {
+        summary: "not in a git repository",
+        hints: ["Ensure you're in a git repository: git rev-parse --git-dir"],
+      }
+    case CommandErrorKind.BranchExists:
+      return {
+        summary: `${branch} already exists`,
+        hints: ["Use worktrunk-switch to switch to it, or choose a different name"],
+      }
+    case CommandErrorKind.BranchNotFound:
+      return {
+        // wt/git messages usually name the missing branch already
+        summary: /not found|does not exist/i.test(error.message) ? error.message : `${branch} not found (${error.message})`,
+        hints: ["Use 'worktrunk-list' to see available worktrees", "Check the branch name spelling"],
+      }
+    case CommandErrorKind.DirtyWorktree:
+      return {
+        summary: "the worktree has uncommitted changes",
+        hints: ["Commit or stash the changes first: git status"],
+      }
+    case CommandErrorKind.Conflict: {
+      const files = parseConflictFiles(error.output)
+      const fileList = files.length > 0 ? `\n\nConflicted files:\n${files.map(file => `- ${file}`).join("\n")}` : ""
+      return {
+        summary: `conflicts detected${fileList}`,
+        hints: ["Resolve the conflicts (git status), then retry"],
+      }
+    }
+    case CommandErrorKind.Timeout:
+      return {
+        summary: error.message,
+        hints: [
+          "The command may still be running: check the worktree (git status) before retrying",
+          `Raise the timeout in .opencode/worktrunk.json, e.g. {"timeouts": {"${normalizeCommand(error.command).split(" ").slice(0, 2).join(" ")}": 900}}`,
+        ],
+      }
+    default:
+      return { summary: error.message, hints: [] }
+  }
+}
+
+const formatHints = (hints: string[]): string =>
+  hints.length > 0 ? `\n\nTroubleshooting:\n${hints.map(hint => `- ${hint}`).join("\n")}` : ""
+
+// Format any error thrown while running a tool's commands into the standard
+// "Error <action>: <summary>" text with troubleshooting hints
+export const formatCommandError = (error: unknown, context: ErrorContext): string => {
+  if (!(error instanceof CommandError)) {
+    const errorMsg = error instanceof Error ? error.message : String(error)
+    return `Error ${context.action}: ${errorMsg}${formatHints(context.troubleshooting ?? [])}`
+  }
+  if (error.kind === CommandErrorKind.NotInstalled) {
+    return NOT_INSTALLED_MESSAGE
+  }
+  const { summary, hints } = describeKind(error, context)
+  return `Error ${context.action}: ${summary}${formatHints(hints.length > 0 ? hints : context.troubleshooting ?? [])}`
+}
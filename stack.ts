@@ -0,0 +1,97 @@
+/**
+ * Stacked-branch graph: each recorded branch points at the base (parent)
+ * branch it was created from. Branches that never had a base recorded, such
+ * as the default branch, only show up as roots.
+ */
+
+// Branch -> parent branch
+export type StackGraph = Record<string, string>
+
+export const STACK_FILE = "stack.json"
+
+// Branch -> the parent commit it was created from or last restacked onto,
+// so a restack only replays the branch's own commits after the parent was
+// amended, rebased or squash-merged
+export type StackBases = Record<string, string>
+
+export const STACK_BASES_FILE = "stack-bases.json"
+
+// Direct children of a branch, sorted by name
+export const getChildren = (graph: StackGraph, parent: string): string[] =>
+  Object.keys(graph)
+    .filter(branch => graph[branch] === parent)
+    .sort()
+
+// All descendants of a branch, parents before children (restack order)
+export const getDescendants = (graph: StackGraph, root: string): string[] => {
+  const result: string[] = []
+  const visited = new Set<string>([root])
+  const visit = (parent: string) => {
+    for (const child of getChildren(graph, parent)) {
+      if (visited.has(child)) {
+        continue // Guard against cycles in a hand-edited store
+      }
+      visited.add(child)
+      result.push(child)
+      visit(child)
+    }
+  }
+  visit(root)
+  return result
+}
+
+// Chain of ancestors from a branch up to its root, nearest first
+export const getAncestors = (graph: StackGraph, branch: string): string[] => {
+  const result: string[] = []
+  const visited = new Set<string>([branch])
+  let parent = graph[branch]
+  while (parent && !visited.has(parent)) {
+    result.push(parent)
+    visited.add(parent)
+    parent = graph[parent]
+  }
+  return result
+}
+
+// Branches that appear as a parent but have no parent themselves
+export const getRoots = (graph: StackGraph): string[] => {
+  const roots = new Set<string>()
+  for (const branch of Object.keys(graph)) {
+    const ancestors = getAncestors(graph, branch)
+    roots.add(ancestors.length > 0 ? ancestors[ancestors.length - 1] : branch)
+  }
+  return [...roots].sort()
+}
+
+// Point the children of a branch at a new parent (e.g. after it was merged)
+export const reparentChildren = (graph: StackGraph, branch: string, newParent: string): StackGraph => {
+  const updated: StackGraph = {}
+  for (const [child, parent] of Object.entries(graph)) {
+    if (child === branch) {
+      continue
+    }
+    updated[child] = parent === branch ? newParent : parent
+  }
+  return updated
+}
+
+// Render the graph as a tree. `annotate` adds a suffix per branch.
+export const formatStackTree = (graph: StackGraph, annotate: (branch: string) => string = () => ""): string => {
+  const lines: string[] = []
+  const visited = new Set<string>()
+  const visit = (branch: string, prefix: string) => {
+    const children = getChildren(graph, branch).filter(child => !visited.has(child))
+    children.forEach((child, index) => {
+      visited.add(child)
+      const last = index === children.length - 1
+      lines.push(`${prefix}${last ? "└── " : "├── "}${child}${annotate(child)}`)
+      visit(child, prefix + (last ? "    " : "│   "))
+    })
+  }
+  for (const root of getRoots(graph)) {
+    visited.add(root)
+    lines.push(`${root}${annotate(root)}`)
+    visit(root, "")
+  }
+  return lines.join("\n")
+}
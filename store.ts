@@ -0,0 +1,124 @@
+import { appendFile, mkdir, open, readFile, rename, rm, stat, writeFile } from "node:fs/promises"
+import { dirname, join } from "node:path"
+
+/**
+ * Small JSON store for plugin state shared by all worktrees of a repository.
+ * Files live in `<git common dir>/opencode-worktrunk/`, next to the refs that
+ * every linked worktree shares.
+ */
+
+export const STATE_DIR = "opencode-worktrunk"
+
+export const getStatePath = (gitCommonDir: string, name: string): string =>
+  join(gitCommonDir, STATE_DIR, name)
+
+// Read a JSON file, returning the fallback if it is missing or unreadable
+export const readJson = async <T>(file: string, fallback: T): Promise<T> => {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as T
+  } catch {
+    return fallback
+  }
+}
+
+let tmpCounter = 0
+
+// Write a JSON file atomically (write to a temp file, then rename). Each
+// write gets its own temp file, so concurrent writes don't rename each
+// other's.
+export const writeJson = async (file: string, data: unknown): Promise<void> => {
+  await mkdir(dirname(file), { recursive: true })
+  const tmp = `${file}.${process.pid}.${++tmpCounter}.tmp`
+  await writeFile(tmp, JSON.stringify(data, null, 2) + "\n", "utf8")
+  await rename(tmp, file)
+}
+
+const LOCK_RETRY_MS = 20
+const LOCK_STALE_MS = 5000 // a lock this old was left by a crashed holder
+const LOCK_TIMEOUT_MS = 10000
+
+// Run `action` holding `<file>.lock`, which is created exclusively, so one
+// process at a time gets past it. Waits for other holders; a lock older
+// than LOCK_STALE_MS is taken over.
+export const withFileLock = async <T>(file: string, action: () => Promise<T>): Promise<T> => {
+  const lock = `${file}.lock`
+  await mkdir(dirname(file), { recursive: true })
+  const deadline = Date.now() + LOCK_TIMEOUT_MS
+  for (;;) {
+    try {
+      await (await open(lock, "wx")).close()
+      break
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error
+      }
+    }
+    const age = await stat(lock).then((stats) => Date.now() - stats.mtimeMs, () => 0)
+    if (age > LOCK_STALE_MS) {
+      await rm(lock, { force: true })
+    } else if (Date.now() > deadline) {
+      throw new Error(`timed out waiting for ${lock}`)
+    } else {
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS))
+    }
+  }
+  try {
+    return await action()
+  } finally {
+    await rm(lock, { force: true })
+  }
+}
+
+// File -> last queued update. Updates of one file in this process run one
+// after another, so none reads the file before the previous one wrote it.
+const updateQueues = new Map<string, Promise<void>>()
+
+// Read-modify-write a JSON file. Updates are queued per file; with `lock`,
+// the file's lock is also held, for files other processes update too.
+export const updateJson = <T>(file: string, fallback: T, update: (data: T) => void, lock: boolean = false): Promise<void> => {
+  const apply = async () => {
+    const data = await readJson<T>(file, fallback)
+    update(data)
+    await writeJson(file, data)
+  }
+  const previous = updateQueues.get(file) ?? Promise.resolve()
+  const next = previous.then(() => (lock ? withFileLock(file, apply) : apply()))
+  const settled = next.catch(() => {})
+  updateQueues.set(file, settled)
+  settled.then(() => {
+    if (updateQueues.get(file) === settled) {
+      updateQueues.delete(file)
+    }
+  })
+  return next
+}
+
+// Append one JSON record to a JSONL log. Lines are written with a single
+// append, so concurrent writers don't interleave within a record.
+export const appendJsonLine = async (file: string, data: unknown): Promise<void> => {
+  await mkdir(dirname(file), { recursive: true })
+  await appendFile(file, JSON.stringify(data) + "\n", "utf8")
+}
+
+// Read a JSONL log, skipping blank or unparseable lines (e.g. a line cut
+// short by a crash). A missing file reads as empty.
+export const readJsonLines = async <T>(file: string): Promise<T[]> => {
+  let text: string
+  try {
+    text = await readFile(file, "utf8")
+  } catch {
+    return []
+  }
+  const records: T[] = []
+  for (const line of text.split("\n")) {
+    if (line.trim() === "") {
+      continue
+    }
+    try {
+      records.push(JSON.parse(line) as T)
+    } catch {
+      // Skip damaged lines
+    }
+  }
+  return records
+}
@@ -0,0 +1,57 @@
+/**
+ * Planning and reporting for `worktrunk-sync`, which brings every worktree
+ * up to date with its base after a single fetch.
+ */
+
+import { formatTable } from "./worktrees"
+
+// How a branch that diverged from its base is updated. Branches that are
+// only behind are always fast-forwarded.
+export type SyncStrategy = "ff" | "rebase" | "merge"
+
+export type SyncStatus = "updated" | "up to date" | "would update" | "skipped" | "conflicted" | "failed"
+
+export interface SyncResult {
+  branch: string
+  status: SyncStatus
+  detail: string
+}
+
+export type SyncAction = "none" | "ff" | "rebase" | "merge" | "skip"
+
+// Decide how to bring a branch that is `ahead`/`behind` its base up to date
+export const chooseSyncAction = (
+  ahead: number,
+  behind: number,
+  strategy: SyncStrategy,
+  base: string,
+): { action: SyncAction; detail: string } => {
+  if (behind === 0) {
+    return { action: "none", detail: ahead > 0 ? `${ahead} commit(s) ahead of ${base}` : "" }
+  }
+  if (ahead === 0) {
+    return { action: "ff", detail: `fast-forward ${behind} commit(s) from ${base}` }
+  }
+  if (strategy === "ff") {
+    return { action: "skip", detail: `diverged from ${base} (${ahead} ahead, ${behind} behind); fast-forward only` }
+  }
+  return { action: strategy, detail: `${strategy} ${ahead} local commit(s) onto ${behind} new from ${base}` }
+}
+
+// Render results as an aligned table with a summary line
+export const formatSyncTable = (results: SyncResult[], dryRun: boolean = false): string => {
+  if (results.length === 0) {
+    return "No worktrees to sync."
+  }
+
+  const header = ["Branch", "Result", "Details"]
+  const rows = results.map(result => [result.branch, result.status, result.detail])
+  const table = formatTable(header, rows)
+
+  const counts = new Map<SyncStatus, number>()
+  for (const { status } of results) {
+    counts.set(status, (counts.get(status) ?? 0) + 1)
+  }
+  const summary = [...counts.entries()].map(([status, count]) => `${count} ${status}`).join(", ")
+  return `${table}\n\n${dryRun ? "Dry run, no worktree changed: " : ""}${summary}`
+}
@@ -0,0 +1,109 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { formatActivity, type MarkerTransition, summarizeActivity } from "../history.ts"
+import { readJsonLines } from "../store.ts"
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+const MINUTE = 60000
+
+const transition = (time: number, branch: string, state: string | null, marker: string | null = null): MarkerTransition =>
+  ({ time, branch, state, marker, sessionID: null })
+
+const makeContext = (commonDir: string): Partial<PluginContext> => ({
+  $: ((strings: TemplateStringsArray, ...values: any[]) => {
+    const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+    return {
+      quiet: () => {
+        if (command.includes("--git-common-dir")) return Promise.resolve({ stdout: Buffer.from(commonDir) })
+        return Promise.resolve({ stdout: Buffer.from("feature/a") })
+      },
+    }
+  }) as any,
+  client: {
+    app: {
+      log: async () => {},
+    },
+  } as any,
+  project: {} as any,
+  directory: "/repo",
+  worktree: {} as any,
+})
+
+describe("time-in-state accounting", () => {
+  test("splits each branch's time between transitions into buckets", () => {
+    const from = 0
+    const to = 100 * MINUTE
+    const activity = summarizeActivity([
+      transition(10 * MINUTE, "feature/a", "working", "🤖"),
+      transition(40 * MINUTE, "feature/a", "idle", "💬"),
+      transition(70 * MINUTE, "feature/a", "working", "🤖"),
+      transition(90 * MINUTE, "feature/a", "ended"),
+      transition(50 * MINUTE, "feature/b", "blocked", "🔐"),
+    ], from, to)
+
+    expect(activity).toEqual([
+      { branch: "feature/a", working: 50 * MINUTE, waiting: 30 * MINUTE, idle: 10 * MINUTE, other: 0 },
+      { branch: "feature/b", working: 0, waiting: 0, idle: 0, other: 50 * MINUTE },
+    ])
+  })
+
+  test("clips to the window and carries in the state from before it", () => {
+    const activity = summarizeActivity([
+      transition(0, "feature/a", "working", "🤖"),
+      transition(60 * MINUTE, "feature/a", "waiting", "💬"),
+      transition(200 * MINUTE, "feature/a", "working", "🤖"),
+    ], 30 * MINUTE, 120 * MINUTE)
+
+    expect(activity).toEqual([{ branch: "feature/a", working: 30 * MINUTE, waiting: 60 * MINUTE, idle: 0, other: 0 }])
+  })
+
+  test("renders a table with totals and waiting share", () => {
+    const table = formatActivity([
+      { branch: "feature/a", working: 90 * MINUTE, waiting: 30 * MINUTE, idle: 0, other: 0 },
+      { branch: "feature/b", working: 30 * MINUTE, waiting: 90 * MINUTE, idle: 5 * MINUTE, other: 0 },
+    ])
+    const lines = table.split("\n")
+    expect(lines[0]).toMatch(/^Branch\s+Working\s+Waiting\s+Idle\s+Other\s+Waiting share$/)
+    expect(lines[1]).toMatch(/^feature\/a\s+1h 30m\s+30m\s+-\s+-\s+25%$/)
+    expect(lines[3]).toMatch(/^Total\s+2h\s+2h\s+5m\s+-\s+50%$/)
+    expect(formatActivity([])).toBe("No marker activity in this window.")
+  })
+
+  test("JSONL reader skips damaged lines", async () => {
+    const file = join(mkdtempSync(join(tmpdir(), "worktrunk-jsonl-")), "log.jsonl")
+    writeFileSync(file, `{"a":1}\n{"a":\n\n{"a":2}\n`)
+    expect(await readJsonLines(file)).toEqual([{ a: 1 }, { a: 2 }])
+    expect(await readJsonLines(`${file}.missing`)).toEqual([])
+  })
+})
+
+describe("marker history", () => {
+  test("logs each marker change once and reports it", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commonDir = mkdtempSync(join(tmpdir(), "worktrunk-activity-"))
+    mkdirSync(join(commonDir, "opencode-worktrunk"))
+    const plugin = await WorkTrunkPlugin(makeContext(commonDir) as PluginContext)
+
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_1" } } as any })
+    await wait(300)
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_1" } } as any })
+    await wait(300)
+    await plugin.event!({ event: { type: "session.idle" } as any })
+    await wait(300)
+
+    const lines = readFileSync(join(commonDir, "opencode-worktrunk", "marker-history.jsonl"), "utf8").trim().split("\n")
+    const entries = lines.map(line => JSON.parse(line))
+    expect(entries.map(entry => entry.state)).toEqual(["working", "idle"])
+    expect(entries[0]).toMatchObject({ branch: "feature/a", marker: "🤖" })
+
+    const result = await plugin.tool!["worktrunk-activity"].execute({ hours: 1 }, {} as any)
+    expect(result).toContain("Marker activity over the last 1h")
+    expect(result).toMatch(/feature\/a\s+\S+\s+\S+/)
+    expect(result).toContain("Total")
+  })
+})
@@ -0,0 +1,167 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { mkdirSync, mkdtempSync, readFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { formatWorkingDirectory } from "../bindings.ts"
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// A repo with a feature/x worktree in a real directory. Records marker
+// commands, and every command when given `commands`.
+const makeRepo = () => {
+  const root = mkdtempSync(join(tmpdir(), "worktrunk-binding-"))
+  const commonDir = join(root, "repo.git")
+  const worktreePath = join(root, "repo.feature-x")
+  mkdirSync(join(commonDir, "opencode-worktrunk"), { recursive: true })
+  mkdirSync(worktreePath)
+  const worktrees = JSON.stringify([
+    { branch: "main", path: join(root, "repo"), is_main: true },
+    { branch: "feature/x", path: worktreePath },
+  ])
+  const bindingsFile = join(commonDir, "opencode-worktrunk", "session-bindings.json")
+
+  const makeContext = (markerCommands: string[], commands: string[] = []): Partial<PluginContext> => ({
+    $: ((strings: TemplateStringsArray, ...values: any[]) => {
+      const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ").replace(/\s+/g, " ")
+      commands.push(command)
+      if (command.includes("marker set")) {
+        markerCommands.push(command)
+      }
+      const respond = (stdout: string) => Promise.resolve({ stdout: Buffer.from(stdout) })
+      return {
+        quiet: () => {
+          if (command.includes("--git-common-dir")) return respond(commonDir)
+          if (command.includes("wt list")) return respond(worktrees)
+          if (command.includes(worktreePath)) return respond("feature/x")
+          if (command.includes("rev-parse --abbrev-ref")) return respond("main")
+          return respond("")
+        },
+      }
+    }) as any,
+    client: {
+      app: {
+        log: async () => {},
+      },
+      session: {
+        get: async ({ path }: any) => ({ data: { id: path.id, directory: join(root, "repo") } }),
+      },
+    } as any,
+    project: {} as any,
+    directory: join(root, "repo"),
+    worktree: {} as any,
+  })
+
+  return { root, worktreePath, bindingsFile, makeContext }
+}
+
+describe("working directory note", () => {
+  test("points sessions started elsewhere at the worktree", () => {
+    expect(formatWorkingDirectory("/repo.x", "/repo.x")).toBe("Working directory: /repo.x")
+    const note = formatWorkingDirectory("/repo.x", "/repo")
+    expect(note).toContain("Working directory: /repo.x")
+    expect(note).toContain("This session was started in /repo")
+    expect(note).toContain("git -C /repo.x")
+  })
+})
+
+describe("session worktree binding", () => {
+  test("switch binds the session and reports the path to work in", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { root, worktreePath, bindingsFile, makeContext } = makeRepo()
+    const markerCommands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(markerCommands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-switch"].execute({ branch: "feature/x", force: true }, { sessionID: "ses_1" } as any)
+
+    expect(result).toContain(`Working directory: ${worktreePath}`)
+    expect(result).toContain(`This session was started in ${join(root, "repo")}`)
+    const bindings = JSON.parse(readFileSync(bindingsFile, "utf8"))
+    expect(bindings.ses_1).toMatchObject({ path: worktreePath, branch: "feature/x" })
+
+    // Session events carry the start directory, which doesn't undo the binding
+    await plugin.event!({ event: { type: "session.updated", properties: { info: { id: "ses_1", directory: join(root, "repo") } } } as any })
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_1" } } as any })
+    await wait(300)
+    expect(markerCommands.some(cmd => cmd.includes("🤖") && cmd.includes("--branch feature/x"))).toBe(true)
+    expect(markerCommands.some(cmd => cmd.includes("--branch main"))).toBe(false)
+
+    const status = await plugin.tool!["worktrunk-status"].execute({}, { sessionID: "ses_1" } as any)
+    expect(status).toContain(`Session worktree: ${worktreePath}`)
+    expect(status).toContain("feature/x")
+  })
+
+  test("create binds the session to the new worktree", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { worktreePath, bindingsFile, makeContext } = makeRepo()
+    const plugin = await WorkTrunkPlugin(makeContext([]) as PluginContext)
+    const result = await plugin.tool!["worktrunk-create"].execute({ branch: "feature/x" }, { sessionID: "ses_2" } as any)
+
+    expect(result).toContain(`Working directory: ${worktreePath}`)
+    expect(JSON.parse(readFileSync(bindingsFile, "utf8")).ses_2.path).toBe(worktreePath)
+  })
+
+  test("bindings are restored by a new plugin instance and dropped on delete", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { bindingsFile, makeContext } = makeRepo()
+    const first = await WorkTrunkPlugin(makeContext([]) as PluginContext)
+    await first.tool!["worktrunk-switch"].execute({ branch: "feature/x", force: true }, { sessionID: "ses_3" } as any)
+
+    const markerCommands: string[] = []
+    const second = await WorkTrunkPlugin(makeContext(markerCommands) as PluginContext)
+    await second.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_3" } } as any })
+    await wait(300)
+    expect(markerCommands.some(cmd => cmd.includes("🤖") && cmd.includes("--branch feature/x"))).toBe(true)
+
+    await second.event!({ event: { type: "session.deleted", properties: { info: { id: "ses_3" } } } as any })
+    expect(JSON.parse(readFileSync(bindingsFile, "utf8")).ses_3).toBeUndefined()
+  })
+
+  test("merge, diff and status-update act on the session's worktree", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { worktreePath, makeContext } = makeRepo()
+    const markerCommands: string[] = []
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(markerCommands, commands) as PluginContext)
+    await plugin.tool!["worktrunk-switch"].execute({ branch: "feature/x", force: true }, { sessionID: "ses_4" } as any)
+
+    commands.length = 0
+    await plugin.tool!["worktrunk-diff"].execute({ base: "main" }, { sessionID: "ses_4" } as any)
+    expect(commands).toContain(`git -C ${worktreePath} diff --numstat main...feature/x`)
+
+    await plugin.tool!["worktrunk-status-update"].execute({ marker: "🚧" }, { sessionID: "ses_4" } as any)
+    expect(markerCommands.some(cmd => cmd.includes("🚧") && cmd.includes("--branch feature/x"))).toBe(true)
+
+    await plugin.tool!["worktrunk-merge"].execute({ target: "main" }, { sessionID: "ses_4" } as any)
+    expect(commands.some(cmd => cmd.startsWith(`wt -C ${worktreePath} merge`))).toBe(true)
+  })
+
+  test("create and remove resolve @ in the session's worktree", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { root, worktreePath, makeContext } = makeRepo()
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext([], commands) as PluginContext)
+    await plugin.tool!["worktrunk-switch"].execute({ branch: "feature/x", force: true }, { sessionID: "ses_5" } as any)
+
+    await plugin.tool!["worktrunk-create"].execute({ branch: "feature/y", base: "@" }, { sessionID: "ses_5" } as any)
+    expect(commands.some(cmd => /^wt switch --create --yes feature\/y --base= ?feature\/x$/.test(cmd))).toBe(true)
+    const stack = JSON.parse(readFileSync(join(root, "repo.git", "opencode-worktrunk", "stack.json"), "utf8"))
+    expect(stack["feature/y"]).toBe("feature/x")
+
+    await plugin.tool!["worktrunk-switch"].execute({ branch: "feature/x", force: true }, { sessionID: "ses_5" } as any)
+    commands.length = 0
+    await plugin.tool!["worktrunk-remove"].execute({ branch: "@", force: true }, { sessionID: "ses_5" } as any)
+    expect(commands).toContain("wt remove --yes feature/x")
+    expect(commands.some(cmd => cmd.includes(`-C ${join(root, "repo")} status`))).toBe(false)
+    expect(commands.some(cmd => cmd.includes(`-C ${worktreePath} status`))).toBe(true)
+  })
+})
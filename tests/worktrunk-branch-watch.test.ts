@@ -0,0 +1,102 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { mkdirSync, mkdtempSync, renameSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { findHeadFile } from "../git.ts"
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Lay out a linked worktree: <root>/wt/.git is a "gitdir:" file pointing at
+// <root>/repo/.git/worktrees/wt, which holds the worktree's HEAD
+const makeLinkedWorktree = () => {
+  const root = mkdtempSync(join(tmpdir(), "worktrunk-watch-"))
+  const adminDir = join(root, "repo", ".git", "worktrees", "wt")
+  mkdirSync(adminDir, { recursive: true })
+  writeFileSync(join(adminDir, "HEAD"), "ref: refs/heads/feature/a\n")
+  mkdirSync(join(root, "wt", "src"), { recursive: true })
+  writeFileSync(join(root, "wt", ".git"), `gitdir: ${adminDir}\n`)
+  return { worktreeDir: join(root, "wt"), adminDir }
+}
+
+describe("HEAD watcher", () => {
+  test("findHeadFile resolves the gitdir file of linked worktrees", async () => {
+    const { worktreeDir, adminDir } = makeLinkedWorktree()
+    expect(await findHeadFile(worktreeDir)).toBe(join(adminDir, "HEAD"))
+    expect(await findHeadFile(join(worktreeDir, "src"))).toBe(join(adminDir, "HEAD"))
+    expect(await findHeadFile(mkdtempSync(join(tmpdir(), "worktrunk-nogit-")))).toBeNull()
+  })
+
+  test("branch changes are detected from HEAD writes without polling", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { worktreeDir, adminDir } = makeLinkedWorktree()
+    let branch = "feature/a"
+    let revParseCalls = 0
+    const logs: string[] = []
+    const mockContext: Partial<PluginContext> = {
+      $: ((strings: TemplateStringsArray, ...values: any[]) => {
+        const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+        return {
+          quiet: () => {
+            if (command.includes("rev-parse --abbrev-ref")) {
+              revParseCalls++
+            }
+            return Promise.resolve({ stdout: Buffer.from(branch) })
+          },
+        }
+      }) as any,
+      client: {
+        app: {
+          log: async (entry: any) => {
+            logs.push(entry.body.message)
+          },
+        },
+      } as any,
+      project: {} as any,
+      directory: worktreeDir,
+      worktree: {} as any,
+    }
+
+    await WorkTrunkPlugin(mockContext as PluginContext)
+    await wait(200)
+    const callsAfterInit = revParseCalls
+
+    // Simulate `git checkout` replacing HEAD through a lock file
+    branch = "feature/b"
+    writeFileSync(join(adminDir, "HEAD.lock"), "ref: refs/heads/feature/b\n")
+    renameSync(join(adminDir, "HEAD.lock"), join(adminDir, "HEAD"))
+    await wait(200)
+
+    expect(logs).toContain("Detected branch change: feature/b")
+    expect(logs.some(message => message.includes("polling"))).toBe(false)
+    expect(revParseCalls).toBeGreaterThan(callsAfterInit)
+  })
+
+  test("falls back to polling when HEAD can't be found", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const logs: string[] = []
+    const mockContext: Partial<PluginContext> = {
+      $: (() => ({
+        quiet: () => Promise.resolve({ stdout: Buffer.from("main") }),
+      })) as any,
+      client: {
+        app: {
+          log: async (entry: any) => {
+            logs.push(entry.body.message)
+          },
+        },
+      } as any,
+      project: {} as any,
+      directory: mkdtempSync(join(tmpdir(), "worktrunk-nogit-")),
+      worktree: {} as any,
+    }
+
+    await WorkTrunkPlugin(mockContext as PluginContext)
+    await wait(200)
+    expect(logs.some(message => message.includes("polling for branch changes"))).toBe(true)
+  })
+})
@@ -0,0 +1,189 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { mkdtempSync, mkdirSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { parseConfig, resolveActiveMarkers, resolveMarker, resolveToolState } from "../config.ts"
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Create a temporary project directory with a .opencode/worktrunk.json
+const makeProject = (content: string) => {
+  const dir = mkdtempSync(join(tmpdir(), "worktrunk-config-"))
+  mkdirSync(join(dir, ".opencode"))
+  writeFileSync(join(dir, ".opencode", "worktrunk.json"), content)
+  return dir
+}
+
+describe("marker config", () => {
+  test("parseConfig merges custom states over the defaults", () => {
+    const { config, errors } = parseConfig({ markers: { idle: "clear", blocked: "🔐" } })
+    expect(errors).toEqual([])
+    expect(resolveMarker(config, "working")).toBe("🤖")
+    expect(resolveMarker(config, "idle")).toBeNull()
+    expect(resolveMarker(config, "blocked")).toBe("🔐")
+    expect(resolveMarker(config, "unknown")).toBeNull()
+  })
+
+  test("parseConfig reports invalid entries and keeps valid ones", () => {
+    const { config, errors } = parseConfig({ markers: { working: 42, "tests failing": "❌", blocked: "🔐" } })
+    expect(errors.length).toBe(2)
+    expect(resolveMarker(config, "working")).toBe("🤖")
+    expect(resolveMarker(config, "blocked")).toBe("🔐")
+  })
+
+  test("parseConfig merges command timeouts over the defaults", () => {
+    const { config, errors } = parseConfig({ timeouts: { "wt merge": 900, "git fetch": -1 } })
+    expect(errors).toEqual([`"timeouts.git fetch" must be a positive number of seconds`])
+    expect(config.timeouts["wt merge"]).toBe(900)
+    expect(config.timeouts["git fetch"]).toBe(300)
+    expect(config.timeouts.default).toBe(30)
+  })
+
+  test("parseConfig maps tools to states", () => {
+    const { config, errors } = parseConfig({
+      markers: { reviewing: "👀" },
+      tools: { "worktrunk-*": "reviewing", "worktrunk-merge": "testing", read: "nope" },
+    })
+    expect(errors.length).toBe(1)
+    expect(errors[0]).toContain("state for tool 'read'")
+    expect(resolveToolState(config, "edit")).toBe("editing")
+    expect(resolveToolState(config, "bash")).toBe("testing")
+    expect(resolveToolState(config, "worktrunk-list")).toBe("reviewing")
+    expect(resolveToolState(config, "worktrunk-merge")).toBe("testing")
+    expect(resolveToolState(config, "read")).toBeNull()
+  })
+
+  test("active markers cover every state but waiting, idle and session ends", () => {
+    const { config } = parseConfig({ markers: { reviewing: "👀", blocked: "clear", idle: "💤" } })
+    expect([...resolveActiveMarkers(config)].sort()).toEqual(["✏️", "👀", "🔐", "🤖", "🧪"].sort())
+  })
+
+  test("session statuses use the configured markers", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const mockContext: Partial<PluginContext> = {
+      $: ((strings: TemplateStringsArray, ...values: any[]) => {
+        const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+        if (command.includes("marker set")) {
+          markerCommands.push(command)
+        }
+        return {
+          quiet: () => Promise.resolve({ stdout: Buffer.from("main") }),
+        }
+      }) as any,
+      client: {
+        app: {
+          log: async () => {},
+        },
+      } as any,
+      project: {} as any,
+      directory: makeProject(JSON.stringify({ markers: { working: "🔨" } })),
+      worktree: {} as any,
+    }
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_1" } } as any })
+    await wait(300)
+
+    expect(markerCommands.some(cmd => cmd.includes("🔨"))).toBe(true)
+    expect(markerCommands.some(cmd => cmd.includes("🤖"))).toBe(false)
+  })
+
+  test("idle and retry statuses use their own configurable states", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const mockContext: Partial<PluginContext> = {
+      $: ((strings: TemplateStringsArray, ...values: any[]) => {
+        const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+        if (command.includes("marker set")) {
+          markerCommands.push(command)
+        }
+        return {
+          quiet: () => Promise.resolve({ stdout: Buffer.from("main") }),
+        }
+      }) as any,
+      client: {
+        app: {
+          log: async () => {},
+        },
+      } as any,
+      project: {} as any,
+      directory: makeProject(JSON.stringify({ markers: { idle: "💤", retry: "🔁" } })),
+      worktree: {} as any,
+    }
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    const status = (type: string) => ({ type: "session.status", properties: { status: { type }, sessionID: "ses_1" } }) as any
+    await plugin.event!({ event: status("retry") })
+    await wait(300)
+    expect(markerCommands.at(-1)).toContain("🔁")
+
+    await plugin.event!({ event: status("idle") })
+    await wait(300)
+    expect(markerCommands.at(-1)).toContain("💤")
+  })
+
+  test("invalid config is reported through client.app.log", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const logs: any[] = []
+    const mockContext: Partial<PluginContext> = {
+      $: (() => ({
+        quiet: () => Promise.resolve({ stdout: Buffer.from("main") }),
+      })) as any,
+      client: {
+        app: {
+          log: async (entry: any) => {
+            logs.push(entry)
+          },
+        },
+      } as any,
+      project: {} as any,
+      directory: makeProject("{ not json"),
+      worktree: {} as any,
+    }
+
+    await WorkTrunkPlugin(mockContext as PluginContext)
+    expect(logs.some(entry => entry.body.level === "warn" && entry.body.message.includes("invalid JSON"))).toBe(true)
+  })
+
+  test("worktrunk-status-update sets a custom state's marker", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    let capturedCommand = ""
+    const mockContext: Partial<PluginContext> = {
+      $: ((strings: TemplateStringsArray, ...values: any[]) => {
+        capturedCommand = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+        return {
+          quiet: () => Promise.resolve({ stdout: Buffer.from("") }),
+        }
+      }) as any,
+      client: {
+        app: {
+          log: async () => {},
+        },
+      } as any,
+      project: {} as any,
+      directory: makeProject(JSON.stringify({ markers: { "tests-failing": "❌" } })),
+      worktree: {} as any,
+    }
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    const updateTool = plugin.tool!["worktrunk-status-update"]
+
+    const result = await updateTool.execute({ state: "tests-failing", branch: "feature/x" }, {} as any)
+    expect(result).toContain("❌")
+    expect(capturedCommand).toContain("❌")
+    expect(capturedCommand).toContain("feature/x")
+
+    const unknown = await updateTool.execute({ state: "nope", branch: "feature/x" }, {} as any)
+    expect(unknown).toContain("Unknown state")
+  })
+})
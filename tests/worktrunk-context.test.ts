@@ -0,0 +1,155 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { parseConfig } from "../config.ts"
+import { formatWorktreeContext, type WorktreeContext } from "../context.ts"
+
+const CONTEXT: WorktreeContext = {
+  branch: "feature/part2",
+  path: "/repo.part2",
+  base: "feature/part1",
+  stacked: true,
+  dirty: true,
+  operation: null,
+  siblings: [
+    { branch: "main", path: "/repo", marker: "💬", dirty: false },
+    { branch: "feature/part1", path: "/repo.part1", marker: null, dirty: true },
+  ],
+}
+
+const makeContext = (commands: string[], config: object = {}): Partial<PluginContext> => {
+  const root = mkdtempSync(join(tmpdir(), "worktrunk-context-"))
+  const directory = join(root, "repo")
+  const commonDir = join(directory, ".git")
+  mkdirSync(join(commonDir, "opencode-worktrunk"), { recursive: true })
+  writeFileSync(join(commonDir, "opencode-worktrunk", "stack.json"), JSON.stringify({ "feature/part2": "feature/part1" }))
+  mkdirSync(join(directory, ".opencode"))
+  writeFileSync(join(directory, ".opencode", "worktrunk.json"), JSON.stringify(config))
+  const worktrees = [
+    { branch: "main", path: join(root, "repo.main"), is_main: true, marker: "💬" },
+    { branch: "feature/part2", path: directory, dirty: true },
+    { branch: "feature/no-worktree" },
+  ]
+  return {
+    $: ((strings: TemplateStringsArray, ...values: any[]) => {
+      const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ").replace(/\s+/g, " ")
+      commands.push(command)
+      const respond = (stdout: string) => Promise.resolve({ stdout: Buffer.from(stdout) })
+      return {
+        quiet: () => {
+          if (command.includes("--git-common-dir")) return respond(commonDir)
+          if (command.includes("wt list")) return respond(JSON.stringify(worktrees))
+          if (command.includes("default-branch")) return respond("main\n")
+          if (command.includes("--abbrev-ref HEAD")) return respond("feature/part2")
+          return respond("")
+        },
+      }
+    }) as any,
+    client: {
+      app: {
+        log: async () => {},
+      },
+    } as any,
+    project: {} as any,
+    directory,
+    worktree: {} as any,
+  }
+}
+
+describe("worktree context block", () => {
+  test("names the branch, worktree, base, state and siblings", () => {
+    const block = formatWorktreeContext(CONTEXT, 1500)
+    const lines = block.split("\n")
+    expect(lines[0]).toBe("<worktrunk-context>")
+    expect(lines).toContain("Branch: feature/part2")
+    expect(lines).toContain("Worktree: /repo.part2")
+    expect(lines).toContain("Base: feature/part1 (stack parent)")
+    expect(lines).toContain("Working tree: uncommitted changes")
+    expect(lines).toContain("- main 💬 /repo")
+    expect(lines).toContain("- feature/part1 (dirty) /repo.part1")
+    expect(lines[lines.length - 1]).toBe("</worktrunk-context>")
+
+    const rebasing = formatWorktreeContext({ ...CONTEXT, operation: "rebase", stacked: false, base: "main", siblings: [] }, 1500)
+    expect(rebasing).toContain("Working tree: rebase in progress")
+    expect(rebasing).toContain("Base: main (default branch)")
+    expect(rebasing).not.toContain("Sibling worktrees:")
+  })
+
+  test("is capped by dropping siblings, then cutting", () => {
+    const siblings = Array.from({ length: 50 }, (_, i) => ({ branch: `feature/sibling-${i}`, path: `/repo.sibling-${i}`, marker: "🤖", dirty: false }))
+    const block = formatWorktreeContext({ ...CONTEXT, siblings }, 600)
+    expect(block.length).toBeLessThanOrEqual(600)
+    expect(block).toContain("- feature/sibling-0 🤖 /repo.sibling-0")
+    expect(block).toMatch(/- \.\.\. and \d+ more \(see worktrunk-list\)\n/)
+    expect(block).toEndWith("</worktrunk-context>")
+
+    const cut = formatWorktreeContext({ ...CONTEXT, path: `/${"deep/".repeat(100)}repo` }, 300)
+    expect(cut.length).toBeLessThanOrEqual(300)
+    expect(cut).toEndWith("\n</worktrunk-context>")
+  })
+
+  test("config can turn it off or change the cap", () => {
+    expect(parseConfig({}).config.context).toEqual({ enabled: true, maxLength: 1500 })
+    const { config, errors } = parseConfig({ context: { enabled: false, maxLength: 50 } })
+    expect(config.context).toEqual({ enabled: false, maxLength: 1500 })
+    expect(errors).toEqual([`"context.maxLength" must be a whole number of characters, at least 300`])
+  })
+})
+
+describe("context hooks", () => {
+  test("adds the block to the system prompt, reusing it between requests", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(commands) as PluginContext)
+    const output = { system: ["You are a coding agent."] }
+    await plugin["experimental.chat.system.transform"]!({ sessionID: "ses_1" }, output)
+
+    expect(output.system).toHaveLength(2)
+    const block = output.system[1]
+    expect(block).toContain("Branch: feature/part2")
+    expect(block).toContain("Base: feature/part1 (stack parent)")
+    expect(block).toContain("Working tree: uncommitted changes")
+    expect(block).toMatch(/- main 💬 \S+repo\.main/)
+    expect(block).not.toContain("feature/no-worktree")
+
+    const lists = () => commands.filter(command => command.includes("wt list")).length
+    const before = lists()
+    await plugin["experimental.chat.system.transform"]!({ sessionID: "ses_1" }, { system: [] })
+    expect(lists()).toBe(before)
+
+    // A worktrunk tool may change the worktrees, so the next request rebuilds it
+    await plugin["tool.execute.after"]!({ tool: "worktrunk-create", sessionID: "ses_1", callID: "call_1" }, {} as any)
+    await plugin["experimental.chat.system.transform"]!({ sessionID: "ses_1" }, { system: [] })
+    expect(lists()).toBe(before + 1)
+  })
+
+  test("rebuilds the block for compaction", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(commands) as PluginContext)
+    await plugin["experimental.chat.system.transform"]!({ sessionID: "ses_1" }, { system: [] })
+    const before = commands.filter(command => command.includes("wt list")).length
+
+    const output = { context: [] as string[] }
+    await plugin["experimental.session.compacting"]!({ sessionID: "ses_1" }, output)
+    expect(output.context).toHaveLength(1)
+    expect(output.context[0]).toStartWith("<worktrunk-context>\n")
+    expect(commands.filter(command => command.includes("wt list")).length).toBe(before + 1)
+  })
+
+  test("adds nothing when turned off", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const plugin = await WorkTrunkPlugin(makeContext([], { context: { enabled: false } }) as PluginContext)
+    const output = { system: [] as string[] }
+    await plugin["experimental.chat.system.transform"]!({ sessionID: "ses_1" }, output)
+    expect(output.system).toEqual([])
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { attentionReason, formatDuration, type MarkerStates, recordMarkerState } from "../dashboard.ts"
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+const MINUTE = 60000
+
+// A worktree directory with a .git dir, optionally holding extra files
+const makeWorktree = (root: string, name: string, files: string[] = []) => {
+  const path = join(root, name)
+  mkdirSync(join(path, ".git"), { recursive: true })
+  writeFileSync(join(path, ".git", "HEAD"), "ref: refs/heads/x\n")
+  for (const file of files) {
+    writeFileSync(join(path, ".git", file), "abc\n")
+  }
+  return path
+}
+
+const makeContext = (worktrees: object[], commonDir: string, commands: string[] = []): Partial<PluginContext> => ({
+  $: ((strings: TemplateStringsArray, ...values: any[]) => {
+    const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ").replace(/\s+/g, " ")
+    commands.push(command)
+    const respond = (stdout: string) => Promise.resolve({ stdout: Buffer.from(stdout) })
+    return {
+      quiet: () => {
+        if (command.includes("--git-common-dir")) return respond(commonDir)
+        if (command.includes("wt list")) return respond(JSON.stringify(worktrees))
+        if (command.includes("rev-parse --abbrev-ref")) return respond("main")
+        return respond("")
+      },
+    }
+  }) as any,
+  client: {
+    app: {
+      log: async () => {},
+    },
+  } as any,
+  project: {} as any,
+  directory: "/repo",
+  worktree: {} as any,
+})
+
+describe("marker state records", () => {
+  test("keep their start time while the state doesn't change", () => {
+    const states: MarkerStates = {}
+    recordMarkerState(states, "feature/a", "working", "🤖", "ses_1", 1000)
+    recordMarkerState(states, "feature/a", "working", "🤖", "ses_1", 5000)
+    expect(states["feature/a"].since).toBe(1000)
+    recordMarkerState(states, "feature/a", "idle", "💬", "ses_1", 9000)
+    expect(states["feature/a"]).toEqual({ state: "idle", marker: "💬", sessionID: "ses_1", since: 9000 })
+  })
+
+  test("formats durations compactly", () => {
+    expect(formatDuration(45000)).toBe("45s")
+    expect(formatDuration(12 * MINUTE)).toBe("12m")
+    expect(formatDuration(185 * MINUTE)).toBe("3h 5m")
+    expect(formatDuration(52 * 60 * MINUTE)).toBe("2d 4h")
+  })
+
+  test("flags waiting, error and in-progress operations", () => {
+    const worktree = (marker: string | null) => ({ branch: "x", marker }) as any
+    const state = (name: string, marker: string | null) => ({ state: name, marker, sessionID: null, since: 0 })
+
+    expect(attentionReason({ worktree: worktree("💬"), state: state("idle", "💬"), sessionID: null, operation: null }, ["💬"])).toBe("idle")
+    expect(attentionReason({ worktree: worktree(null), state: state("error", null), sessionID: null, operation: null }, ["💬"])).toBe("error")
+    expect(attentionReason({ worktree: worktree("💬"), state: null, sessionID: null, operation: null }, ["💬"])).toBe("waiting")
+    expect(attentionReason({ worktree: worktree("🤖"), state: state("working", "🤖"), sessionID: null, operation: "rebase" }, ["💬"])).toBe("rebase in progress")
+    expect(attentionReason({ worktree: worktree("🤖"), state: state("working", "🤖"), sessionID: null, operation: null }, ["💬"])).toBeNull()
+    // A stale record for a marker changed by hand doesn't count
+    expect(attentionReason({ worktree: worktree("🚧"), state: state("error", null), sessionID: null, operation: null }, ["💬"])).toBeNull()
+  })
+})
+
+describe("worktrunk-dashboard tool", () => {
+  const setup = () => {
+    const root = mkdtempSync(join(tmpdir(), "worktrunk-dashboard-"))
+    const commonDir = join(root, "repo.git")
+    mkdirSync(join(commonDir, "opencode-worktrunk"), { recursive: true })
+    const now = Date.now()
+    writeFileSync(join(commonDir, "opencode-worktrunk", "marker-states.json"), JSON.stringify({
+      "feature/busy": { state: "working", marker: "🤖", sessionID: "ses_busy", since: now - 12 * MINUTE },
+      "feature/waiting": { state: "idle", marker: "💬", sessionID: "ses_wait", since: now - 185 * MINUTE },
+    }))
+    const worktrees = [
+      { branch: "main", path: makeWorktree(root, "repo"), is_main: true },
+      {
+        branch: "feature/busy",
+        path: makeWorktree(root, "repo.busy"),
+        marker: "🤖",
+        commit: { sha: "95e48b49deadbeef", message: "Add REST API endpoints", timestamp: Math.floor(now / 1000) - 3600 },
+        main: { ahead: 2, behind: 1 },
+        ci: { status: "passed" },
+      },
+      { branch: "feature/waiting", path: makeWorktree(root, "repo.waiting"), marker: "💬", dirty: true },
+      { branch: "feature/conflict", path: makeWorktree(root, "repo.conflict", ["MERGE_HEAD"]) },
+      { branch: "feature/no-worktree" },
+    ]
+    return { commonDir, worktrees }
+  }
+
+  test("shows state, age, session, last commit and attention for every worktree", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { commonDir, worktrees } = setup()
+    const plugin = await WorkTrunkPlugin(makeContext(worktrees, commonDir) as PluginContext)
+    const result = await plugin.tool!["worktrunk-dashboard"].execute({}, {} as any) as string
+    const row = (branch: string) => result.split("\n").find(line => line.includes(` ${branch} `)) ?? ""
+
+    expect(row("feature/busy")).toMatch(/🤖 working\s+12m\s+ses_busy\s+95e48b49 Add REST API endpoints \(1h ago\)\s+↑2 ↓1\s+passed$/)
+    expect(row("feature/waiting")).toMatch(/^!.*💬 idle\s+3h 5m\s+ses_wait.*yes.*idle$/)
+    expect(row("feature/conflict")).toContain("merge in progress")
+    expect(result).not.toContain("feature/no-worktree")
+    expect(result).toContain("4 worktree(s), 2 need attention")
+  })
+
+  test("filters to worktrees needing attention", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { commonDir, worktrees } = setup()
+    const plugin = await WorkTrunkPlugin(makeContext(worktrees, commonDir) as PluginContext)
+    const result = await plugin.tool!["worktrunk-dashboard"].execute({ attention: true }, {} as any) as string
+
+    expect(result).toContain("feature/waiting")
+    expect(result).toContain("feature/conflict")
+    expect(result).not.toContain("feature/busy")
+  })
+
+  test("session markers are recorded with their state", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { commonDir, worktrees } = setup()
+    const plugin = await WorkTrunkPlugin(makeContext(worktrees, commonDir) as PluginContext)
+    await plugin.event!({ event: { type: "session.error" } as any })
+    await wait(300)
+
+    const states = JSON.parse(readFileSync(join(commonDir, "opencode-worktrunk", "marker-states.json"), "utf8"))
+    expect(states.main).toMatchObject({ state: "error", marker: null })
+  })
+})
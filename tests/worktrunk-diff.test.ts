@@ -0,0 +1,107 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { parseNumstat, truncateText } from "../git.ts"
+
+const NUMSTAT = "30\t2\tsrc/api.ts\n-\t-\tassets/logo.png\n5\t0\tREADME.md\n"
+const UNIFIED = "diff --git a/src/api.ts b/src/api.ts\n" + "+added line\n".repeat(100)
+
+const makeContext = (commands: string[], overrides: (command: string) => Promise<any> | undefined = () => undefined): Partial<PluginContext> => ({
+  $: ((strings: TemplateStringsArray, ...values: any[]) => {
+    const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+    commands.push(command)
+    return {
+      quiet: () => {
+        const override = overrides(command)
+        if (override) {
+          return override
+        }
+        if (command.includes("--numstat")) {
+          return Promise.resolve({ stdout: Buffer.from(NUMSTAT) })
+        }
+        if (command.includes("git -C") && command.includes(" log ")) {
+          return Promise.resolve({ stdout: Buffer.from("abc1234 Add API\ndef5678 Update docs\n") })
+        }
+        if (command.includes(" diff ")) {
+          return Promise.resolve({ stdout: Buffer.from(UNIFIED) })
+        }
+        if (command.includes("default-branch")) {
+          return Promise.resolve({ stdout: Buffer.from("main\n") })
+        }
+        if (command.includes("previous-branch")) {
+          return Promise.resolve({ stdout: Buffer.from("feature/prev\n") })
+        }
+        return Promise.resolve({ stdout: Buffer.from("feature/api") })
+      },
+    }
+  }) as any,
+  client: {
+    app: {
+      log: async () => {},
+    },
+  } as any,
+  project: {} as any,
+  directory: "/test",
+  worktree: {} as any,
+})
+
+describe("diff helpers", () => {
+  test("parseNumstat handles text and binary files", () => {
+    expect(parseNumstat(NUMSTAT)).toEqual([
+      { path: "src/api.ts", added: 30, deleted: 2 },
+      { path: "assets/logo.png", added: null, deleted: null },
+      { path: "README.md", added: 5, deleted: 0 },
+    ])
+  })
+
+  test("truncateText cuts at a line boundary", () => {
+    const { text, truncated } = truncateText("line one\nline two\nline three\n", 14)
+    expect(truncated).toBe(true)
+    expect(text).toBe("line one")
+    expect(truncateText("short", 100)).toEqual({ text: "short", truncated: false })
+  })
+})
+
+describe("worktrunk-diff tool", () => {
+  test("summarizes the current branch against the default branch", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(commands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-diff"].execute({ maxDiffBytes: 200 }, {} as any)
+
+    expect(result).toContain("Diff of 'feature/api' against 'main' (default branch)")
+    expect(result).toContain("3 file(s) changed, +35 -2")
+    expect(result).toContain("+30 -2")
+    expect(result).toContain("binary")
+    expect(result).toContain("abc1234 Add API")
+    expect(result).toContain("Diff (truncated to 200 bytes):")
+    expect(commands.some(cmd => cmd.includes("--numstat") && cmd.includes("main...feature/api"))).toBe(true)
+  })
+
+  test("resolves the - shortcut and honors an explicit base", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(commands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-diff"].execute({ branch: "-", base: "develop", maxDiffBytes: 0 }, {} as any)
+
+    expect(result).toContain("Diff of 'feature/prev' against 'develop' (explicit)")
+    expect(result).not.toContain("Diff:")
+    expect(commands.some(cmd => cmd.includes("develop...feature/prev"))).toBe(true)
+  })
+
+  test("reports errors for unknown branches", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(commands, (command) =>
+      command.includes("--numstat") ? Promise.reject(new Error("fatal: ambiguous argument 'main...nope'")) : undefined,
+    ) as PluginContext)
+    const result = await plugin.tool!["worktrunk-diff"].execute({ branch: "nope" }, {} as any)
+
+    expect(result).toContain("Error diffing 'nope' against 'main'")
+  })
+})
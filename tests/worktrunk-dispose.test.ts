@@ -0,0 +1,155 @@
+import { describe, test, expect, jest, afterEach, beforeEach } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { spawnSync } from "node:child_process"
+import { chmodSync, mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+
+// Let pending promise chains and real I/O settle while timers are faked
+const settle = async () => {
+  for (let i = 0; i < 20; i++) {
+    await new Promise((resolve) => setImmediate(resolve))
+  }
+}
+
+const makeContext = (markerCommands: string[]): Partial<PluginContext> => ({
+  $: ((strings: TemplateStringsArray, ...values: any[]) => {
+    const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+    if (command.includes("marker set")) {
+      markerCommands.push(command)
+    }
+    return {
+      quiet: () => Promise.resolve({ stdout: Buffer.from("feature/x") }),
+    }
+  }) as any,
+  client: {
+    app: {
+      log: async () => {},
+    },
+  } as any,
+  project: {} as any,
+  directory: "/nonexistent/worktrunk-dispose-test",
+  worktree: {} as any,
+})
+
+describe("plugin disposal", () => {
+  // Plugins from earlier test files finish their deferred init first, so
+  // their command timers don't show up in the fake timer count
+  beforeEach(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 150))
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test("shutdown clears timers, flushes pending markers and resets them", async () => {
+    jest.useFakeTimers()
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(markerCommands) as PluginContext)
+
+    // Run deferred init, which falls back to polling (no .git here)
+    jest.advanceTimersByTime(100)
+    await settle()
+
+    // Leave a debounced marker pending
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_1" } } as any })
+    expect(jest.getTimerCount()).toBeGreaterThan(0)
+    expect(markerCommands.length).toBe(0)
+
+    await plugin.event!({ event: { type: "server.instance.disposed", properties: { directory: "/nonexistent/worktrunk-dispose-test" } } as any })
+
+    expect(jest.getTimerCount()).toBe(0)
+    expect(markerCommands.length).toBe(2)
+    expect(markerCommands[0]).toContain("🤖")
+    expect(markerCommands[1]).toContain('""')
+    expect(markerCommands[1]).toContain("feature/x")
+  })
+
+  test("no timers or markers are started after disposal", async () => {
+    jest.useFakeTimers()
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(markerCommands) as PluginContext)
+
+    // Dispose before deferred init runs
+    await plugin.event!({ event: { type: "server.instance.disposed", properties: {} } as any })
+    expect(jest.getTimerCount()).toBe(0)
+
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_1" } } as any })
+    jest.advanceTimersByTime(5000)
+    await settle()
+    expect(jest.getTimerCount()).toBe(0)
+    expect(markerCommands.length).toBe(0)
+  })
+
+  test("disposal of another instance's directory is ignored", async () => {
+    jest.useFakeTimers()
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(markerCommands) as PluginContext)
+
+    await plugin.event!({ event: { type: "server.instance.disposed", properties: { directory: "/somewhere/else" } } as any })
+    expect(jest.getTimerCount()).toBeGreaterThan(0)
+
+    await plugin.event!({ event: { type: "server.instance.disposed", properties: { directory: "/nonexistent/worktrunk-dispose-test" } } as any })
+    expect(jest.getTimerCount()).toBe(0)
+  })
+})
+
+describe("process exit", () => {
+  // Run a plugin with a 🤖 marker on feature/x in a child process that ends
+  // with `ending`. A fake wt on the PATH logs the commands run at exit.
+  const runUntilExit = (ending: string) => {
+    const root = mkdtempSync(join(tmpdir(), "worktrunk-exit-"))
+    mkdirSync(join(root, "bin"))
+    mkdirSync(join(root, "repo.git"))
+    const log = join(root, "wt.log")
+    writeFileSync(join(root, "bin", "wt"), `#!/bin/sh\necho "$@" >> ${log}\n`)
+    chmodSync(join(root, "bin", "wt"), 0o755)
+    const script = `
+      const { default: WorkTrunkPlugin } = await import(${JSON.stringify(join(import.meta.dir, "..", "index.ts"))})
+      const $ = (strings, ...values) => {
+        const command = strings.join(" ")
+        const stdout = command.includes("--git-common-dir") ? ${JSON.stringify(join(root, "repo.git"))} : "feature/x"
+        return { quiet: () => Promise.resolve({ stdout: Buffer.from(stdout) }) }
+      }
+      const plugin = await WorkTrunkPlugin({ $, client: { app: { log: async () => {} } }, project: {}, directory: ${JSON.stringify(root)}, worktree: {} })
+      await plugin.event({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_1" } } })
+      await new Promise((resolve) => setTimeout(resolve, 300))
+      ${ending}
+    `
+    const result = spawnSync(process.execPath, ["-e", script], {
+      cwd: root,
+      env: { ...process.env, PATH: `${join(root, "bin")}:${process.env.PATH}` },
+      timeout: 20000,
+    })
+    const commands = (() => {
+      try {
+        return readFileSync(log, "utf8").trim().split("\n")
+      } catch {
+        return []
+      }
+    })()
+    return { result, commands }
+  }
+
+  test("process.exit() resets the markers", () => {
+    const { result, commands } = runUntilExit("process.exit(0)")
+    expect(result.status).toBe(0)
+    expect(commands).toEqual(["config state marker set  --branch feature/x"])
+  })
+
+  test("a signal resets the markers and still ends the process", () => {
+    const { result, commands } = runUntilExit(`process.kill(process.pid, "SIGTERM"); await new Promise((resolve) => setTimeout(resolve, 10000))`)
+    expect(result.signal).toBe("SIGTERM")
+    expect(commands).toEqual(["config state marker set  --branch feature/x"])
+  })
+})
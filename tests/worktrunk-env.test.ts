@@ -0,0 +1,160 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { parseConfig } from "../config.ts"
+import { chooseBlock, DEFAULT_ENV, withExports, worktreeEnv } from "../env.ts"
+
+const ENV = { ...DEFAULT_ENV, enabled: true, databaseUrl: "postgres://dev@localhost:5432/app?sslmode=disable" }
+
+const makeContext = (env: object | null, branch: string = "feature/api"): { context: Partial<PluginContext>; registryFile: string } => {
+  const root = mkdtempSync(join(tmpdir(), "worktrunk-env-"))
+  const directory = join(root, "shop")
+  const commonDir = join(directory, ".git")
+  mkdirSync(join(commonDir, "opencode-worktrunk"), { recursive: true })
+  mkdirSync(join(directory, ".opencode"))
+  if (env) {
+    writeFileSync(join(directory, ".opencode", "worktrunk.json"), JSON.stringify({ env }))
+  }
+  const context: Partial<PluginContext> = {
+    $: ((strings: TemplateStringsArray, ...values: any[]) => {
+      const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ").replace(/\s+/g, " ")
+      const respond = (stdout: string) => Promise.resolve({ stdout: Buffer.from(stdout) })
+      return {
+        quiet: () => {
+          if (command.includes("--git-common-dir")) return respond(commonDir)
+          if (command.includes("default-branch")) return respond("main\n")
+          if (command.includes("--abbrev-ref HEAD")) return respond(branch)
+          return respond("")
+        },
+      }
+    }) as any,
+    client: {
+      app: {
+        log: async () => {},
+      },
+    } as any,
+    project: {} as any,
+    directory,
+    worktree: {} as any,
+  }
+  return { context, registryFile: join(commonDir, "opencode-worktrunk", "env-registry.json") }
+}
+
+describe("port blocks", () => {
+  test("the default branch keeps the base port, others get a stable block", () => {
+    expect(chooseBlock({}, "main", ENV, true)).toBe(3000)
+    const port = chooseBlock({}, "feature/api", ENV, false)!
+    expect(port).toBeGreaterThanOrEqual(3010)
+    expect((port - 3000) % 10).toBe(0)
+    expect(chooseBlock({}, "feature/api", ENV, false)).toBe(port)
+  })
+
+  test("taken blocks are skipped, and reassigning moves to the next free one", () => {
+    const port = chooseBlock({}, "feature/api", ENV, false)!
+    const registry = { "feature/other": { port, assignedAt: 0 } }
+    const moved = chooseBlock(registry, "feature/api", ENV, false)!
+    expect(moved).not.toBe(port)
+
+    const next = chooseBlock({ "feature/api": { port: 3050, assignedAt: 0 }, "feature/b": { port: 3060, assignedAt: 0 } }, "feature/api", ENV, false, 3050)
+    expect(next).toBe(3070)
+    expect(chooseBlock({}, "x", { ...ENV, basePort: 65530 }, false)).toBeNull()
+  })
+
+  test("variables are derived from the branch", () => {
+    expect(worktreeEnv("feature/API-v2", 3130, ENV, "Shop App", false)).toEqual({
+      PORT: "3130",
+      WORKTRUNK_PORTS: "3130-3139",
+      DATABASE_URL: "postgres://dev@localhost:5432/app_feature_api_v2?sslmode=disable",
+      COMPOSE_PROJECT_NAME: "shop-app-feature-api-v2",
+    })
+    expect(worktreeEnv("main", 3000, ENV, "shop", true)).toMatchObject({ DATABASE_URL: ENV.databaseUrl, COMPOSE_PROJECT_NAME: "shop" })
+    expect(withExports("npm run dev", { PORT: "3130", NAME: "it's" })).toBe("export PORT='3130' NAME='it'\\''s'\nnpm run dev")
+  })
+
+  test("config section turns environments on and is validated", () => {
+    expect(parseConfig({}).config.env.enabled).toBe(false)
+    const { config, errors } = parseConfig({ env: { basePort: 4000, blockSize: 0, composeProject: "no" } })
+    expect(config.env).toMatchObject({ enabled: true, basePort: 4000, blockSize: 10, composeProject: true })
+    expect(errors).toHaveLength(2)
+  })
+})
+
+describe("worktree environment injection", () => {
+  test("bash commands get the worktree's exports and the block is recorded", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { context, registryFile } = makeContext({ basePort: 3000 })
+    const plugin = await WorkTrunkPlugin(context as PluginContext)
+    const output = { args: { command: "npm run dev", description: "Start the dev server" } }
+    await plugin["tool.execute.before"]!({ tool: "bash", sessionID: "ses_1", callID: "call_1" }, output)
+
+    const registry = JSON.parse(readFileSync(registryFile, "utf8"))
+    const port = registry["feature/api"].port
+    expect(output.args.command).toBe(`export PORT='${port}' WORKTRUNK_PORTS='${port}-${port + 9}' COMPOSE_PROJECT_NAME='shop-feature-api'\nnpm run dev`)
+
+    // Other tools are left alone
+    const read = { args: { filePath: "/x" } }
+    await plugin["tool.execute.before"]!({ tool: "read", sessionID: "ses_1", callID: "call_2" }, read)
+    expect(read.args).toEqual({ filePath: "/x" })
+  })
+
+  test("blocks are only taken while holding the registry lock", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { context, registryFile } = makeContext({ basePort: 3000 })
+    const plugin = await WorkTrunkPlugin(context as PluginContext)
+    // Another OpenCode process is updating the registry
+    writeFileSync(`${registryFile}.lock`, "")
+    const output = { args: { command: "npm run dev" } }
+    const injected = plugin["tool.execute.before"]!({ tool: "bash", sessionID: "ses_1", callID: "call_1" }, output)
+    await new Promise((resolve) => setTimeout(resolve, 200))
+    expect(existsSync(registryFile)).toBe(false)
+
+    rmSync(`${registryFile}.lock`)
+    await injected
+    expect(JSON.parse(readFileSync(registryFile, "utf8"))["feature/api"]).toBeDefined()
+    expect(output.args.command).toStartWith("export PORT=")
+  })
+
+  test("nothing is injected without an env section", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { context } = makeContext(null)
+    const plugin = await WorkTrunkPlugin(context as PluginContext)
+    const output = { args: { command: "npm run dev" } }
+    await plugin["tool.execute.before"]!({ tool: "bash", sessionID: "ses_1", callID: "call_1" }, output)
+    expect(output.args.command).toBe("npm run dev")
+    expect(await plugin.tool!["worktrunk-env"].execute({}, {} as any)).toStartWith("Per-worktree environments are off.")
+  })
+
+  test("worktrunk-env shows and reassigns blocks", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { context, registryFile } = makeContext({ basePort: 3000 })
+    writeFileSync(registryFile, JSON.stringify({ main: { port: 3000, assignedAt: 0 }, "feature/web": { port: 4200, assignedAt: 0 } }))
+    const plugin = await WorkTrunkPlugin(context as PluginContext)
+    const envTool = plugin.tool!["worktrunk-env"]
+
+    const shown = await envTool.execute({}, {} as any) as string
+    expect(shown).toMatch(/^Environment for feature\/api \(ports \d+-\d+\):\nPORT=\d+\n/)
+
+    expect(await envTool.execute({ port: 4205 }, {} as any)).toStartWith("Error: Ports 4205-4214 overlap the block of 'feature/web' (4200-4209)")
+    const moved = await envTool.execute({ port: 5000 }, {} as any) as string
+    expect(moved).toStartWith("Moved feature/api from port ")
+    expect(moved).toContain("PORT=5000\nWORKTRUNK_PORTS=5000-5009")
+
+    const reassigned = await envTool.execute({ reassign: true }, {} as any) as string
+    expect(reassigned).toContain("from port 5000 to port")
+    expect(JSON.parse(readFileSync(registryFile, "utf8"))["feature/api"].port).not.toBe(5000)
+
+    const all = await envTool.execute({ all: true }, {} as any) as string
+    expect(all.split("\n")[1]).toMatch(/^main\s+3000-3009$/)
+    expect(all).toMatch(/feature\/web\s+4200-4209/)
+  })
+})
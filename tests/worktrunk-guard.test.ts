@@ -0,0 +1,161 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { parsePorcelainStatus } from "../guard.ts"
+
+const WORKTREES = JSON.stringify([
+  { branch: "main", path: "/repo", is_main: true },
+  { branch: "feature/x", path: "/repo.feature-x" },
+])
+
+interface Repo {
+  status?: string
+  unpushed?: string
+  owners?: object
+}
+
+// Mock shell for a repo with a feature/x worktree. Records every command.
+const makeContext = (repo: Repo, commands: string[]): Partial<PluginContext> => {
+  const commonDir = mkdtempSync(join(tmpdir(), "worktrunk-guard-"))
+  mkdirSync(join(commonDir, "opencode-worktrunk"))
+  writeFileSync(join(commonDir, "opencode-worktrunk", "marker-owners.json"), JSON.stringify(repo.owners ?? {}))
+  return {
+    $: ((strings: TemplateStringsArray, ...values: any[]) => {
+      const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ").replace(/\s+/g, " ")
+      commands.push(command)
+      const respond = (stdout: string) => Promise.resolve({ stdout: Buffer.from(stdout) })
+      return {
+        quiet: () => {
+          if (command.includes("--git-common-dir")) return respond(commonDir)
+          if (command.includes("wt list")) return respond(WORKTREES)
+          if (command.includes("status --porcelain")) return respond(repo.status ?? "")
+          if (command.includes("rev-list --count")) return respond(repo.unpushed ?? "0")
+          if (command.includes("rev-parse --abbrev-ref")) return respond("main")
+          return respond("")
+        },
+      }
+    }) as any,
+    client: {
+      app: {
+        log: async () => {},
+      },
+    } as any,
+    project: {} as any,
+    directory: "/repo",
+    worktree: {} as any,
+  }
+}
+
+describe("porcelain status parsing", () => {
+  test("separates changed and untracked paths", () => {
+    expect(parsePorcelainStatus(" M src/a.ts\nA  src/b.ts\nR  old.ts -> new.ts\n?? notes.md\n!! dist/\n")).toEqual({
+      changed: ["src/a.ts", "src/b.ts", "new.ts"],
+      untracked: ["notes.md"],
+    })
+  })
+})
+
+describe("worktrunk-remove guard", () => {
+  test("refuses to remove a worktree with local work", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext({ status: " M src/a.ts\n?? notes.md\n", unpushed: "2" }, commands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-remove"].execute({ branch: "feature/x" }, {} as any)
+
+    expect(result).toContain("Error: Refusing to remove worktree 'feature/x'")
+    expect(result).toContain("1 uncommitted change(s): src/a.ts")
+    expect(result).toContain("1 untracked file(s): notes.md")
+    expect(result).toContain("2 unpushed commit(s)")
+    expect(result).toContain(`worktrunk-remove({branch: "feature/x", saveChanges: "stash"})`)
+    expect(result).toContain(`worktrunk-remove({branch: "feature/x", force: true})`)
+    expect(commands.some(cmd => cmd.includes("git -C /repo.feature-x status --porcelain"))).toBe(true)
+    expect(commands.some(cmd => cmd.includes("wt remove"))).toBe(false)
+  })
+
+  test("force removes anyway", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext({ status: " M src/a.ts\n", unpushed: "2" }, commands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-remove"].execute({ branch: "feature/x", force: true }, {} as any)
+
+    expect(result).toContain("Removed worktree: feature/x")
+    expect(commands.some(cmd => cmd.includes("wt remove --yes feature/x"))).toBe(true)
+  })
+
+  test("stashes local changes before removing", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext({ status: " M src/a.ts\n" }, commands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-remove"].execute({ branch: "feature/x", saveChanges: "stash" }, {} as any)
+
+    expect(result).toContain("Stashed local changes")
+    expect(result).toContain("Removed worktree: feature/x")
+    const stash = commands.findIndex(cmd => cmd.includes("git -C /repo.feature-x stash push --include-untracked"))
+    const remove = commands.findIndex(cmd => cmd.includes("wt remove"))
+    expect(stash).toBeGreaterThan(-1)
+    expect(remove).toBeGreaterThan(stash)
+  })
+
+  test("saving changes doesn't bypass unpushed commits", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext({ status: " M src/a.ts\n", unpushed: "1" }, commands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-remove"].execute({ branch: "feature/x", saveChanges: "commit" }, {} as any)
+
+    expect(result).toContain("Refusing")
+    expect(result).toContain("Push the branch first")
+    expect(commands.some(cmd => cmd.includes("commit --no-verify"))).toBe(false)
+  })
+})
+
+describe("worktrunk-switch guard", () => {
+  const owners = () => ({
+    "feature/x": { pid: process.pid, sessionID: "ses_other", marker: "🤖", heartbeat: Date.now() },
+  })
+
+  test("refuses to switch into a branch another session is working on", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext({ owners: owners() }, commands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-switch"].execute({ branch: "feature/x" }, { sessionID: "ses_me" } as any)
+
+    expect(result).toContain("Refusing to switch to 'feature/x'")
+    expect(result).toContain("marker 🤖 from another session (session ses_other)")
+    expect(commands.some(cmd => cmd.includes("wt switch"))).toBe(false)
+  })
+
+  test("the owning session itself can switch", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext({ owners: owners() }, commands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-switch"].execute({ branch: "feature/x" }, { sessionID: "ses_other" } as any)
+
+    expect(result).toContain("Switched to branch: feature/x")
+  })
+
+  test("refuses to leave uncommitted changes behind", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext({ status: "?? scratch.txt\n" }, commands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-switch"].execute({ branch: "feature/x" }, {} as any)
+
+    expect(result).toContain("1 untracked file(s): scratch.txt")
+    expect(commands.some(cmd => cmd.includes("git -C /repo status --porcelain"))).toBe(true)
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { describeHeadState, readGitOperation } from "../git.ts"
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// A worktree whose .git directory holds the given files (relative paths)
+const makeWorktree = (files: Record<string, string>) => {
+  const dir = mkdtempSync(join(tmpdir(), "worktrunk-head-"))
+  const gitDir = join(dir, ".git")
+  mkdirSync(gitDir)
+  writeFileSync(join(gitDir, "HEAD"), "4f2a9c1e0b7d8a6f5e4d3c2b1a0f9e8d7c6b5a49\n")
+  for (const [name, content] of Object.entries(files)) {
+    mkdirSync(join(gitDir, name, ".."), { recursive: true })
+    writeFileSync(join(gitDir, name), content)
+  }
+  return { dir, gitDir }
+}
+
+// Mock shell for a detached HEAD at abc1234, or for what `head` returns
+const makeContext = (directory: string, markerCommands: string[], head: () => string = () => "HEAD"): Partial<PluginContext> => ({
+  $: ((strings: TemplateStringsArray, ...values: any[]) => {
+    const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+    if (command.includes("marker set")) {
+      markerCommands.push(command)
+    }
+    return {
+      quiet: () => {
+        if (command.includes("--abbrev-ref")) return Promise.resolve({ stdout: Buffer.from(`${head()}\n`) })
+        if (command.includes("--short")) return Promise.resolve({ stdout: Buffer.from("abc1234\n") })
+        if (command.includes("wt list")) return Promise.resolve({ stdout: Buffer.from("[]") })
+        return Promise.resolve({ stdout: Buffer.from("") })
+      },
+    }
+  }) as any,
+  client: {
+    app: {
+      log: async () => {},
+    },
+  } as any,
+  project: {} as any,
+  directory,
+  worktree: {} as any,
+})
+
+describe("git operation detection", () => {
+  test("reads rebase, merge, cherry-pick and bisect state", async () => {
+    expect(await readGitOperation(makeWorktree({ "rebase-merge/head-name": "refs/heads/feature/a\n" }).gitDir))
+      .toEqual({ operation: "rebase", branch: "feature/a" })
+    expect(await readGitOperation(makeWorktree({ "rebase-apply/head-name": "detached HEAD\n" }).gitDir))
+      .toEqual({ operation: "rebase", branch: null })
+    expect(await readGitOperation(makeWorktree({ MERGE_HEAD: "abc\n" }).gitDir))
+      .toEqual({ operation: "merge", branch: null })
+    expect(await readGitOperation(makeWorktree({ CHERRY_PICK_HEAD: "abc\n" }).gitDir))
+      .toEqual({ operation: "cherry-pick", branch: null })
+    expect(await readGitOperation(makeWorktree({ BISECT_START: "main\n" }).gitDir))
+      .toEqual({ operation: "bisect", branch: "main" })
+    expect(await readGitOperation(makeWorktree({}).gitDir))
+      .toEqual({ operation: null, branch: null })
+  })
+
+  test("describes each HEAD state", () => {
+    expect(describeHeadState({ branch: "main", detached: false, sha: null, operation: null })).toBe("On branch 'main'")
+    expect(describeHeadState({ branch: null, detached: true, sha: "abc1234", operation: null })).toBe("HEAD detached at abc1234")
+    expect(describeHeadState({ branch: "feature/a", detached: true, sha: "abc1234", operation: "rebase" }))
+      .toBe("Rebase in progress on 'feature/a' (HEAD detached at abc1234)")
+    expect(describeHeadState({ branch: "main", detached: false, sha: null, operation: "merge" })).toBe("Merge in progress on 'main'")
+  })
+})
+
+describe("branch detection with a detached HEAD", () => {
+  test("markers go to the branch being rebased", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { dir } = makeWorktree({ "rebase-merge/head-name": "refs/heads/feature/a\n" })
+    const markerCommands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(dir, markerCommands) as PluginContext)
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_1" } } as any })
+    await wait(300)
+
+    expect(markerCommands.length).toBeGreaterThan(0)
+    expect(markerCommands.every(cmd => cmd.includes("feature/a"))).toBe(true)
+    expect(markerCommands.some(cmd => cmd.includes("--branch HEAD"))).toBe(false)
+
+    const status = await plugin.tool!["worktrunk-status"].execute({}, {} as any)
+    expect(status).toContain("Rebase in progress on 'feature/a' (HEAD detached at abc1234)")
+    expect(status).toContain("git rebase --continue")
+  })
+
+  test("plain detached HEAD sets no marker and is reported", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { dir } = makeWorktree({})
+    const markerCommands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(dir, markerCommands) as PluginContext)
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_1" } } as any })
+    await wait(300)
+
+    expect(markerCommands).toEqual([])
+    const status = await plugin.tool!["worktrunk-status"].execute({}, {} as any)
+    expect(status).toContain("HEAD detached at abc1234")
+    expect(status).toContain("No branch is checked out")
+  })
+
+  test("detaching HEAD stops markers on the branch that was checked out", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { dir } = makeWorktree({})
+    const markerCommands: string[] = []
+    let head = "feature/a"
+    const plugin = await WorkTrunkPlugin(makeContext(dir, markerCommands, () => head) as PluginContext)
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_1" } } as any })
+    await wait(300)
+    expect(markerCommands.some(cmd => cmd.includes("🤖") && cmd.includes("feature/a"))).toBe(true)
+
+    // git checkout --detach, seen once the HEAD cache expires
+    head = "HEAD"
+    await wait(1100)
+    markerCommands.length = 0
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "idle" }, sessionID: "ses_1" } } as any })
+    await wait(300)
+    expect(markerCommands).toEqual([])
+  })
+})
@@ -0,0 +1,224 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, utimesSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { dirname, join } from "node:path"
+import { parseConfig } from "../config.ts"
+import { isLeaseLive, otherHolder, type Leases } from "../leases.ts"
+import { updateJson } from "../store.ts"
+
+const WORKTREES = JSON.stringify([
+  { branch: "main", path: "/repo", is_main: true },
+  { branch: "feature/x", path: "/repo.feature-x" },
+])
+
+// A live lease of another session in this process
+const otherLease = (minutes: number = 20) => ({ sessionID: "ses_other", pid: process.pid, claimedAt: Date.now(), expiresAt: Date.now() + minutes * 60000 })
+
+// Mock shell for a repo with a feature/x worktree, with `leases` already
+// recorded. Commands containing `fail` exit with an error.
+const makeContext = (leases: Leases, commands: string[], fail?: string): { context: Partial<PluginContext>; leasesFile: string } => {
+  const commonDir = mkdtempSync(join(tmpdir(), "worktrunk-leases-"))
+  mkdirSync(join(commonDir, "opencode-worktrunk"))
+  const leasesFile = join(commonDir, "opencode-worktrunk", "worktree-leases.json")
+  writeFileSync(leasesFile, JSON.stringify(leases))
+  const context: Partial<PluginContext> = {
+    $: ((strings: TemplateStringsArray, ...values: any[]) => {
+      const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ").replace(/\s+/g, " ")
+      commands.push(command)
+      const respond = (stdout: string) => Promise.resolve({ stdout: Buffer.from(stdout) })
+      return {
+        quiet: () => {
+          if (command.includes("--git-common-dir")) return respond(commonDir)
+          if (fail && command.includes(fail)) {
+            return Promise.reject(Object.assign(new Error("Failed with exit code 1"), { stderr: Buffer.from("error: switch failed"), exitCode: 1 }))
+          }
+          if (command.includes("wt list")) return respond(WORKTREES)
+          if (command.includes("rev-list --count")) return respond("0")
+          if (command.includes("rev-parse --abbrev-ref")) return respond("main")
+          return respond("")
+        },
+      }
+    }) as any,
+    client: {
+      app: {
+        log: async () => {},
+      },
+    } as any,
+    project: {} as any,
+    directory: "/repo",
+    worktree: {} as any,
+  }
+  return { context, leasesFile }
+}
+
+const readLeases = (file: string): Leases => JSON.parse(readFileSync(file, "utf8"))
+
+describe("lease records", () => {
+  test("a lease counts until it expires or its process is gone", () => {
+    const now = Date.now()
+    const lease = { sessionID: "ses_1", pid: 42, claimedAt: now, expiresAt: now + 60000 }
+    expect(isLeaseLive(lease, now, () => true)).toBe(true)
+    expect(isLeaseLive(lease, now + 60000, () => true)).toBe(false)
+    expect(isLeaseLive(lease, now, () => false)).toBe(false)
+
+    const leases = { "feature/x": lease }
+    expect(otherHolder(leases, "feature/x", "ses_2", now, () => true)).toBe(lease)
+    expect(otherHolder(leases, "feature/x", undefined, now, () => true)).toBe(lease)
+    expect(otherHolder(leases, "feature/x", "ses_1", now, () => true)).toBeNull()
+    expect(otherHolder(leases, "feature/y", "ses_2", now, () => true)).toBeNull()
+  })
+
+  test("config sets the lease duration", () => {
+    expect(parseConfig({}).config.leases).toEqual({ ttlMinutes: 30 })
+    expect(parseConfig({ leases: { ttlMinutes: 90 } }).config.leases.ttlMinutes).toBe(90)
+    expect(parseConfig({ leases: { ttlMinutes: 1 } }).errors).toEqual([`"leases.ttlMinutes" must be a number of minutes, at least 2`])
+  })
+
+  test("concurrent updates keep every entry", async () => {
+    const file = join(mkdtempSync(join(tmpdir(), "worktrunk-leases-")), "leases.json")
+    const add = (key: string, lock: boolean) => updateJson<Record<string, number>>(file, {}, (data) => { data[key] = 1 }, lock)
+    await Promise.all(Array.from({ length: 20 }, (_, i) => add(`branch-${i}`, i % 2 === 0)))
+    expect(Object.keys(JSON.parse(readFileSync(file, "utf8"))).length).toBe(20)
+    expect(existsSync(`${file}.lock`)).toBe(false)
+  })
+
+  test("a lock left by a crashed process is taken over", async () => {
+    const file = join(mkdtempSync(join(tmpdir(), "worktrunk-leases-")), "leases.json")
+    writeFileSync(`${file}.lock`, "")
+    const old = new Date(Date.now() - 60000)
+    utimesSync(`${file}.lock`, old, old)
+    await updateJson<Record<string, number>>(file, {}, (data) => { data.main = 1 }, true)
+    expect(JSON.parse(readFileSync(file, "utf8"))).toEqual({ main: 1 })
+  })
+})
+
+describe("worktree leases", () => {
+  test("switch refuses a worktree another session claimed, unless stealing", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const { context, leasesFile } = makeContext({ "feature/x": otherLease() }, commands)
+    const plugin = await WorkTrunkPlugin(context as PluginContext)
+    const switchTool = plugin.tool!["worktrunk-switch"]
+
+    const refused = await switchTool.execute({ branch: "feature/x" }, { sessionID: "ses_me" } as any) as string
+    expect(refused).toStartWith("Error: Refusing to switch to 'feature/x':\n- The worktree is claimed by session ses_other")
+    expect(refused).toContain(`worktrunk-switch({branch: "feature/x", steal: true})`)
+    expect(commands.some(cmd => cmd.includes("wt switch"))).toBe(false)
+
+    const stolen = await switchTool.execute({ branch: "feature/x", steal: true }, { sessionID: "ses_me" } as any) as string
+    expect(stolen).toContain("Took over the lease on 'feature/x' from session ses_other")
+    expect(commands.some(cmd => cmd.includes("wt switch --yes feature/x"))).toBe(true)
+    expect(readLeases(leasesFile)["feature/x"]).toMatchObject({ sessionID: "ses_me", pid: process.pid })
+  })
+
+  test("only one of two sessions switching in at once gets the worktree", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const { context, leasesFile } = makeContext({}, commands)
+    const plugin = await WorkTrunkPlugin(context as PluginContext)
+    const switchTool = plugin.tool!["worktrunk-switch"]
+
+    const results = await Promise.all(["ses_a", "ses_b"].map(sessionID => switchTool.execute({ branch: "feature/x" }, { sessionID } as any) as Promise<string>))
+    const switched = results.filter(result => result.startsWith("Switched to branch: feature/x"))
+    expect(switched.length).toBe(1)
+    expect(results.filter(result => result.startsWith("Error: Refusing to switch to 'feature/x'")).length).toBe(1)
+    expect(commands.filter(cmd => cmd.includes("wt switch")).length).toBe(1)
+    expect(readLeases(leasesFile)["feature/x"].sessionID).toBe(results[0] === switched[0] ? "ses_a" : "ses_b")
+  })
+
+  test("a failed switch gives the claim back", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const ownLease = { ...otherLease(), sessionID: "ses_me" }
+    const leases = { main: ownLease, "feature/x": otherLease() }
+    const { context, leasesFile } = makeContext(leases, [], "wt switch")
+    const plugin = await WorkTrunkPlugin(context as PluginContext)
+    const result = await plugin.tool!["worktrunk-switch"].execute({ branch: "feature/x", steal: true }, { sessionID: "ses_me" } as any)
+
+    expect(result).toStartWith("Error")
+    expect(readLeases(leasesFile)).toEqual(leases)
+  })
+
+  test("expired leases and leases of dead processes don't count", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { context, leasesFile } = makeContext({
+      "feature/x": { ...otherLease(), expiresAt: Date.now() - 1000 },
+      main: { ...otherLease(), pid: 2 ** 30 },
+    }, [])
+    const plugin = await WorkTrunkPlugin(context as PluginContext)
+    const result = await plugin.tool!["worktrunk-switch"].execute({ branch: "feature/x" }, { sessionID: "ses_me" } as any)
+    expect(result).toStartWith("Switched to branch: feature/x")
+    expect(result).not.toContain("Took over")
+    expect(readLeases(leasesFile)["feature/x"].sessionID).toBe("ses_me")
+  })
+
+  test("switching moves the session's claim to the new worktree", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { context, leasesFile } = makeContext({}, [])
+    const plugin = await WorkTrunkPlugin(context as PluginContext)
+    await plugin.tool!["worktrunk-switch"].execute({ branch: "feature/x" }, { sessionID: "ses_me" } as any)
+    expect(Object.keys(readLeases(leasesFile))).toEqual(["feature/x"])
+    await plugin.tool!["worktrunk-switch"].execute({ branch: "main" }, { sessionID: "ses_me" } as any)
+    expect(Object.keys(readLeases(leasesFile))).toEqual(["main"])
+  })
+
+  test("claim and release", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { context, leasesFile } = makeContext({ main: otherLease() }, [])
+    const plugin = await WorkTrunkPlugin(context as PluginContext)
+    const claim = plugin.tool!["worktrunk-claim"]
+    const release = plugin.tool!["worktrunk-release"]
+
+    expect(await claim.execute({ branch: "feature/x" }, { sessionID: "ses_me" } as any)).toStartWith("Claimed 'feature/x' for session ses_me.")
+    expect(await claim.execute({ branch: "feature/gone" }, { sessionID: "ses_me" } as any)).toStartWith("Error: 'feature/gone' has no worktree to claim.")
+    expect(await claim.execute({ branch: "main" }, { sessionID: "ses_me" } as any)).toStartWith("Error: Refusing to claim 'main':")
+    expect(await release.execute({ branch: "main" }, { sessionID: "ses_me" } as any)).toStartWith("Error: 'main' is claimed by session ses_other")
+    expect(await claim.execute({}, {} as any)).toBe("Error: Claims belong to a session, and this call has none.")
+
+    expect(await release.execute({ branch: "feature/x" }, { sessionID: "ses_me" } as any)).toStartWith("Released the claim on 'feature/x'.")
+    expect(await release.execute({ branch: "feature/x" }, { sessionID: "ses_me" } as any)).toBe("This session has no claim on 'feature/x'.")
+    expect(Object.keys(readLeases(leasesFile))).toEqual(["main"])
+  })
+
+  test("deleting the session releases its claims", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { context, leasesFile } = makeContext({}, [])
+    const plugin = await WorkTrunkPlugin(context as PluginContext)
+    await plugin.tool!["worktrunk-claim"].execute({ branch: "feature/x" }, { sessionID: "ses_me" } as any)
+    expect(readLeases(leasesFile)["feature/x"].sessionID).toBe("ses_me")
+
+    await plugin.event!({ event: { type: "session.deleted", properties: { info: { id: "ses_me" } } } as any })
+    expect(readLeases(leasesFile)).toEqual({})
+  })
+
+  test("merging away a worktree drops its claim and marker owner", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { context, leasesFile } = makeContext({}, [])
+    const ownersFile = join(dirname(leasesFile), "marker-owners.json")
+    writeFileSync(ownersFile, JSON.stringify({ main: { pid: process.pid, sessionID: "ses_me", marker: "🤖", heartbeat: Date.now() } }))
+    const plugin = await WorkTrunkPlugin(context as PluginContext)
+    await plugin.tool!["worktrunk-claim"].execute({ branch: "main" }, { sessionID: "ses_me" } as any)
+    expect(readLeases(leasesFile).main.sessionID).toBe("ses_me")
+
+    const result = await plugin.tool!["worktrunk-merge"].execute({ target: "develop" }, { sessionID: "ses_me" } as any)
+    expect(result).toStartWith("Merged 'main' into 'develop'")
+    expect(readLeases(leasesFile)).toEqual({})
+    expect(JSON.parse(readFileSync(ownersFile, "utf8"))).toEqual({})
+  })
+})
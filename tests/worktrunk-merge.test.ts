@@ -0,0 +1,95 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+
+// Build a mock shell that records commands and answers by command prefix
+const makeContext = (respond: (command: string) => Promise<any>, commands: string[] = []): Partial<PluginContext> => ({
+  $: ((strings: TemplateStringsArray, ...values: any[]) => {
+    const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+    commands.push(command)
+    return {
+      quiet: () => respond(command),
+    }
+  }) as any,
+  client: {
+    app: {
+      log: async () => {},
+    },
+  } as any,
+  project: {} as any,
+  directory: "/test",
+  worktree: {} as any,
+})
+
+describe("worktrunk-merge tool", () => {
+  test("merges into the default branch with squash by default", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const mockContext = makeContext((command) => {
+      if (command.includes("default-branch")) {
+        return Promise.resolve({ stdout: Buffer.from("main\n") })
+      }
+      if (command.includes("rev-parse")) {
+        return Promise.resolve({ stdout: Buffer.from("feature/done") })
+      }
+      return Promise.resolve({ stdout: Buffer.from("Merged") })
+    }, commands)
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    const result = await plugin.tool!["worktrunk-merge"].execute({}, {} as any)
+
+    expect(result).toContain("Merged 'feature/done' into 'main'")
+    expect(result).toContain("squash")
+    const mergeCommand = commands.find(cmd => cmd.includes("wt merge"))!
+    expect(mergeCommand).toContain("main")
+    expect(mergeCommand).toContain("--yes")
+    expect(mergeCommand).not.toContain("--no-squash")
+    expect(mergeCommand).not.toContain("--no-remove")
+  })
+
+  test("passes strategy, hook and keep flags", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const mockContext = makeContext(() => Promise.resolve({ stdout: Buffer.from("feature/part2") }), commands)
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    const result = await plugin.tool!["worktrunk-merge"].execute({
+      target: "feature/part1",
+      strategy: "rebase",
+      skipHooks: true,
+      keepWorktree: true,
+    }, {} as any)
+
+    expect(result).toContain("worktree kept")
+    const mergeCommand = commands.find(cmd => cmd.includes("wt merge"))!
+    expect(mergeCommand).toContain("feature/part1")
+    expect(mergeCommand).toContain("--no-squash")
+    expect(mergeCommand).toContain("--no-verify")
+    expect(mergeCommand).toContain("--no-remove")
+    expect(commands.some(cmd => cmd.includes("default-branch"))).toBe(false)
+  })
+
+  test("reports conflicted files", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const mockContext = makeContext((command) => {
+      if (command.includes("wt merge")) {
+        const error: any = new Error("Failed with exit code 1")
+        error.stderr = Buffer.from("Auto-merging src/a.ts\nCONFLICT (content): Merge conflict in src/a.ts\nCONFLICT (modify/delete): src/b.ts deleted in HEAD and modified in feature")
+        return Promise.reject(error)
+      }
+      return Promise.resolve({ stdout: Buffer.from("feature/x") })
+    })
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    const result = await plugin.tool!["worktrunk-merge"].execute({ target: "main" }, {} as any)
+
+    expect(result).toContain("Merge conflict")
+    expect(result).toContain("- src/a.ts")
+    expect(result).toContain("- src/b.ts")
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { parseConfig } from "../config.ts"
+import { checkBranchName, checkRefFormat, DEFAULT_NAMING, generateBranchName, parseBranchRefs, slugify } from "../naming.ts"
+
+const POLICY = { prefixes: ["feat/", "fix/"], maxLength: 30, lowercase: true }
+
+describe("git ref-format rules", () => {
+  test("accepts ordinary branch names", () => {
+    for (const name of ["main", "feature/login", "fix/issue-42", "release/1.2.x", "user@home", "a#b"]) {
+      expect(checkRefFormat(name)).toEqual([])
+    }
+  })
+
+  test("rejects names git rejects", () => {
+    expect(checkRefFormat("a..b")).toEqual(["it can't contain '..'"])
+    expect(checkRefFormat("foo.lock")).toEqual(["no part between slashes can end with '.lock'"])
+    expect(checkRefFormat("feature/")).toEqual(["it can't start or end with '/'"])
+    expect(checkRefFormat("feature//x")).toEqual(["it can't contain '//'"])
+    expect(checkRefFormat("feature/.hidden")).toEqual(["no part between slashes can start with '.'"])
+    expect(checkRefFormat("topic.")).toEqual(["it can't end with '.'"])
+    expect(checkRefFormat("-x")).toEqual(["it can't start with '-'"])
+    expect(checkRefFormat("a@{1}")).toEqual(["it can't contain '@{'"])
+    expect(checkRefFormat("@")).toEqual(["'@' alone is not a branch name"])
+    expect(checkRefFormat("my branch~1")).toEqual(["it can't contain space, '~'"])
+    expect(checkRefFormat("a\tb")).toEqual(["it can't contain control characters"])
+    for (const name of ["a^b", "a:b", "a?b", "a*b", "a[b", "a\\b"]) {
+      expect(checkRefFormat(name)).toHaveLength(1)
+    }
+  })
+})
+
+describe("naming policy", () => {
+  test("checks prefixes, length and case", () => {
+    expect(checkBranchName("feat/login", POLICY)).toEqual([])
+    expect(checkBranchName("Feat/Login", POLICY)).toEqual(["it must start with 'feat/' or 'fix/'", "it must be lowercase"])
+    expect(checkBranchName("fix/a-very-long-branch-name-indeed", POLICY)).toEqual(["it is 34 characters long, the limit is 30"])
+    expect(checkBranchName("anything/Goes", DEFAULT_NAMING)).toEqual([])
+  })
+
+  test("config is validated", () => {
+    const { config, errors } = parseConfig({ naming: { prefixes: ["feat/", "bad prefix", ""], maxLength: 40, lowercase: true } })
+    expect(config.naming).toEqual({ prefixes: ["feat/"], maxLength: 40, lowercase: true })
+    expect(errors).toHaveLength(2)
+
+    const invalid = parseConfig({ naming: { maxLength: 2.5, lowercase: "yes", prefixes: "feat/" } })
+    expect(invalid.errors).toHaveLength(3)
+    expect(invalid.config.naming).toEqual(DEFAULT_NAMING)
+  })
+})
+
+describe("branch name generation", () => {
+  test("slugs the task under the matching prefix", () => {
+    expect(slugify("Add OAuth login (Google & GitHub)!", 40)).toBe("add-oauth-login-google-github")
+    expect(slugify("Café menü", 40)).toBe("cafe-menu")
+    expect(slugify("one two three", 8)).toBe("one-two")
+    expect(generateBranchName("Fix: the login redirect loop", POLICY, new Set())).toBe("fix/the-login-redirect-loop")
+    expect(generateBranchName("Add OAuth login", POLICY, new Set())).toBe("feat/add-oauth-login")
+    expect(generateBranchName("Add OAuth login", DEFAULT_NAMING, new Set())).toBe("add-oauth-login")
+    expect(generateBranchName("!!!", POLICY, new Set())).toBeNull()
+  })
+
+  test("stays within maxLength and avoids existing branches", () => {
+    const name = generateBranchName("Support exporting reports as spreadsheets", POLICY, new Set())!
+    expect(name).toBe("feat/support-exporting-reports")
+    expect(checkBranchName(name, POLICY)).toEqual([])
+
+    const existing = new Set([name, `${name.slice(0, 28)}-2`])
+    const unique = generateBranchName("Support exporting reports as spreadsheets", POLICY, existing)!
+    expect(unique).toBe("feat/support-exporting-repor-3")
+    expect(unique.length).toBeLessThanOrEqual(30)
+  })
+
+  test("existing branches include remote ones", () => {
+    const refs = "refs/heads/main\nrefs/heads/feat/a\nrefs/remotes/origin/HEAD\nrefs/remotes/origin/fix/b\n"
+    expect([...parseBranchRefs(refs)]).toEqual(["main", "feat/a", "fix/b"])
+  })
+})
+
+describe("worktrunk-create naming", () => {
+  const makeContext = (commands: string[]): Partial<PluginContext> => {
+    const directory = mkdtempSync(join(tmpdir(), "worktrunk-naming-"))
+    mkdirSync(join(directory, ".opencode"))
+    writeFileSync(join(directory, ".opencode", "worktrunk.json"), JSON.stringify({ naming: POLICY }))
+    return {
+      $: ((strings: TemplateStringsArray, ...values: any[]) => {
+        const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ").replace(/\s+/g, " ")
+        commands.push(command)
+        const respond = (stdout: string) => Promise.resolve({ stdout: Buffer.from(stdout) })
+        return {
+          quiet: () => {
+            if (command.includes("for-each-ref")) return respond("refs/heads/main\nrefs/remotes/origin/fix/login-redirect\n")
+            return respond("Created worktree")
+          },
+        }
+      }) as any,
+      client: {
+        app: {
+          log: async () => {},
+        },
+      } as any,
+      project: {} as any,
+      directory,
+      worktree: {} as any,
+    }
+  }
+
+  test("rejects names that break the policy", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(commands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-create"].execute({ branch: "Login.lock" }, {} as any)
+
+    expect(result).toBe("Error: Invalid branch name 'Login.lock': no part between slashes can end with '.lock'; it must start with 'feat/' or 'fix/'; it must be lowercase.\n\nPass task instead of branch to generate a name that follows the rules.")
+    expect(commands.some(command => command.includes("wt switch"))).toBe(false)
+  })
+
+  test("generates a unique name from the task", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(commands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-create"].execute({ task: "fix login redirect" }, {} as any)
+
+    expect(result).toStartWith("Generated branch name 'fix/login-redirect-2' from the task.\n")
+    expect(commands.find(command => command.startsWith("wt switch"))).toEndWith("fix/login-redirect-2")
+  })
+
+  test("needs a branch or a task, not both", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const plugin = await WorkTrunkPlugin(makeContext([]) as PluginContext)
+    const create = plugin.tool!["worktrunk-create"]
+    expect(await create.execute({}, {} as any)).toBe("Error: Pass a branch name, or a task to generate one from.")
+    expect(await create.execute({ branch: "feat/x", task: "x" }, {} as any)).toBe("Error: Pass either branch or task, not both.")
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Mock shell on branch feature/a that records marker commands
+const makeContext = (markerCommands: string[]): Partial<PluginContext> => ({
+  $: ((strings: TemplateStringsArray, ...values: any[]) => {
+    const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+    if (command.includes("marker set")) {
+      markerCommands.push(command)
+    }
+    return {
+      quiet: () => Promise.resolve({ stdout: Buffer.from("feature/a") }),
+    }
+  }) as any,
+  client: {
+    app: {
+      log: async () => {},
+    },
+    session: {
+      get: async ({ path }: any) => ({ data: { id: path.id, directory: "/repo" } }),
+    },
+  } as any,
+  project: {} as any,
+  directory: "/repo",
+  worktree: {} as any,
+})
+
+const asked = (id: string) => ({
+  type: "permission.updated",
+  properties: { id, type: "bash", sessionID: "ses_1", messageID: "msg_1", title: "Run bun test", metadata: {}, time: { created: Date.now() } },
+}) as any
+const replied = (permissionID: string) => ({
+  type: "permission.replied",
+  properties: { sessionID: "ses_1", permissionID, response: "once" },
+}) as any
+const status = (value: "busy" | "idle" | "retry") => ({ type: "session.status", properties: { status: { type: value }, sessionID: "ses_1" } }) as any
+
+describe("permission request marker", () => {
+  test("holds the permission marker until the request is answered", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(markerCommands) as PluginContext)
+
+    await plugin.event!({ event: status("busy") })
+    await wait(300)
+    await plugin.event!({ event: asked("per_1") })
+    await wait(300)
+    expect(markerCommands.at(-1)).toContain("🔐")
+
+    // session.status can't override the pending request
+    await plugin.event!({ event: status("busy") })
+    await wait(300)
+    expect(markerCommands.at(-1)).toContain("🔐")
+
+    await plugin.event!({ event: replied("per_1") })
+    await wait(300)
+    expect(markerCommands.at(-1)).toContain("🤖")
+  })
+
+  test("returns to the latest state reported while the request was open", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(markerCommands) as PluginContext)
+
+    await plugin.event!({ event: status("busy") })
+    await plugin.event!({ event: asked("per_1") })
+    await plugin.event!({ event: { type: "session.idle", properties: { sessionID: "ses_1" } } as any })
+    await plugin.event!({ event: replied("per_1") })
+    await wait(300)
+
+    expect(markerCommands.at(-1)).toContain("💬")
+  })
+
+  test("stays blocked until every open request is answered", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(markerCommands) as PluginContext)
+
+    await plugin.event!({ event: status("busy") })
+    await plugin.event!({ event: asked("per_1") })
+    // The permission.ask hook reports the same request again
+    await plugin["permission.ask"]!(asked("per_1").properties, { status: "ask" })
+    await plugin.event!({ event: asked("per_2") })
+    await plugin.event!({ event: replied("per_1") })
+    await wait(300)
+    expect(markerCommands.at(-1)).toContain("🔐")
+
+    await plugin.event!({ event: replied("per_2") })
+    await wait(300)
+    expect(markerCommands.at(-1)).toContain("🤖")
+  })
+})
@@ -0,0 +1,203 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { existsSync, lstatSync, mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { parseConfig } from "../config.ts"
+import { DEFAULT_PROVISION, formatProvisionReport, provisionWorktree } from "../provision.ts"
+import { CommandError, CommandErrorKind, type Runner } from "../runner.ts"
+
+// Runner that records commands and fails the ones containing `failOn`
+const makeRunner = (commands: string[], failOn: string | null = null) => (seconds: number): Runner =>
+  (async (strings: TemplateStringsArray, ...values: any[]) => {
+    const command = strings.flatMap((s, i) => [s, values[i] ?? ""]).join("").trim()
+    commands.push(`${seconds}s ${command}`)
+    if (failOn && command.includes(failOn)) {
+      throw new CommandError(CommandErrorKind.Failed, command, "npm ERR! missing script\n", 1)
+    }
+    return { command, stdout: "", stderr: "", exitCode: 0 }
+  }) as Runner
+
+const setupRepo = () => {
+  const root = mkdtempSync(join(tmpdir(), "worktrunk-provision-"))
+  const source = join(root, "repo")
+  const target = join(root, "repo.feature")
+  mkdirSync(join(source, "config"), { recursive: true })
+  mkdirSync(target)
+  writeFileSync(join(source, ".env"), "PORT=3000\n")
+  writeFileSync(join(source, "config", "local.json"), "{}\n")
+  mkdirSync(join(source, "node_modules"))
+  return { root, source, target }
+}
+
+describe("provision config", () => {
+  test("accepts paths, command strings and command objects", () => {
+    const { config, errors } = parseConfig({
+      provision: {
+        copy: [".env", "./config/local.json"],
+        symlink: ["node_modules"],
+        commands: ["npm install", { run: "npm run build", timeout: 120 }],
+        timeout: 300,
+      },
+    })
+    expect(errors).toEqual([])
+    expect(config.provision).toEqual({
+      copy: [".env", "config/local.json"],
+      symlink: ["node_modules"],
+      commands: [{ run: "npm install", timeout: null }, { run: "npm run build", timeout: 120 }],
+      timeout: 300,
+    })
+  })
+
+  test("rejects paths outside the worktree and malformed commands", () => {
+    const { config, errors } = parseConfig({
+      provision: {
+        copy: ["../secrets", "/etc/passwd", ".env"],
+        commands: [42, { run: "make", timeout: 0 }],
+        timeout: "long",
+      },
+    })
+    expect(errors).toHaveLength(5)
+    expect(errors[0]).toContain(`"../secrets"`)
+    expect(config.provision.copy).toEqual([".env"])
+    expect(config.provision.commands).toEqual([])
+    expect(config.provision.timeout).toBe(DEFAULT_PROVISION.timeout)
+  })
+})
+
+describe("provisionWorktree", () => {
+  test("copies and links files from the main worktree, skipping missing ones", async () => {
+    const { source, target } = setupRepo()
+    const messages: string[] = []
+    const steps = await provisionWorktree({
+      source,
+      target,
+      config: { ...DEFAULT_PROVISION, copy: [".env", "config/local.json", ".env.local"], symlink: ["node_modules"] },
+      runner: makeRunner([]),
+      log: async (message) => { messages.push(message) },
+    })
+
+    expect(steps.map(step => `${step.kind} ${step.target} ${step.status}`)).toEqual([
+      "copy .env done",
+      "copy config/local.json done",
+      "copy .env.local skipped",
+      "symlink node_modules done",
+    ])
+    expect(readFileSync(join(target, ".env"), "utf8")).toBe("PORT=3000\n")
+    expect(existsSync(join(target, "config", "local.json"))).toBe(true)
+    expect(lstatSync(join(target, "node_modules")).isSymbolicLink()).toBe(true)
+    expect(messages).toHaveLength(4)
+  })
+
+  test("never overwrites files already in the worktree", async () => {
+    const { source, target } = setupRepo()
+    writeFileSync(join(target, ".env"), "PORT=4000\n")
+    const steps = await provisionWorktree({
+      source,
+      target,
+      config: { ...DEFAULT_PROVISION, copy: [".env"] },
+      runner: makeRunner([]),
+      log: async () => {},
+    })
+    expect(steps[0]).toMatchObject({ status: "skipped", detail: "already exists" })
+    expect(readFileSync(join(target, ".env"), "utf8")).toBe("PORT=4000\n")
+  })
+
+  test("runs commands in the worktree and stops after a failure", async () => {
+    const { source, target } = setupRepo()
+    const commands: string[] = []
+    const steps = await provisionWorktree({
+      source,
+      target,
+      config: {
+        ...DEFAULT_PROVISION,
+        commands: [
+          { run: "npm install", timeout: null },
+          { run: "npm run codegen", timeout: 60 },
+          { run: "npm run build", timeout: null },
+        ],
+      },
+      runner: makeRunner(commands, "codegen"),
+      log: async () => {},
+    })
+
+    expect(commands).toHaveLength(2)
+    expect(commands[0]).toStartWith("600s sh -c")
+    expect(commands[0]).toContain("npm install")
+    expect(commands[0]).toEndWith(target)
+    expect(commands[1]).toStartWith("60s ")
+    expect(steps.map(step => step.status)).toEqual(["done", "failed", "skipped"])
+    expect(steps[1].detail).toContain("exit 1: npm ERR! missing script")
+
+    const report = formatProvisionReport(steps)
+    expect(report).toStartWith("Provisioning finished with 1 failure(s):")
+    expect(report).toContain("- Ran 'npm install'")
+    expect(report).toContain("- FAILED: command 'npm run codegen' - exit 1")
+    expect(report).toContain("- Skipped: command 'npm run build' - an earlier command failed")
+  })
+})
+
+describe("worktrunk-create provisioning", () => {
+  const setup = () => {
+    const { root, source, target } = setupRepo()
+    mkdirSync(join(source, ".opencode"))
+    writeFileSync(join(source, ".opencode", "worktrunk.json"), JSON.stringify({
+      provision: { copy: [".env"], commands: ["npm install"] },
+    }))
+    const commands: string[] = []
+    const worktrees = [
+      { branch: "main", path: source, is_main: true },
+      { branch: "feature/provision", path: target },
+    ]
+    const context: Partial<PluginContext> = {
+      $: ((strings: TemplateStringsArray, ...values: any[]) => {
+        const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ").replace(/\s+/g, " ")
+        commands.push(command)
+        const respond = (stdout: string) => Promise.resolve({ stdout: Buffer.from(stdout) })
+        return {
+          quiet: () => {
+            if (command.includes("--git-common-dir")) return respond(join(root, "repo.git"))
+            if (command.includes("wt list")) return respond(JSON.stringify(worktrees))
+            if (command.includes("rev-parse --abbrev-ref")) return respond("main")
+            return respond("Created worktree")
+          },
+        }
+      }) as any,
+      client: {
+        app: {
+          log: async () => {},
+        },
+      } as any,
+      project: {} as any,
+      directory: source,
+      worktree: {} as any,
+    }
+    return { context, commands, target }
+  }
+
+  test("provisions the new worktree and reports the steps", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { context, commands, target } = setup()
+    const plugin = await WorkTrunkPlugin(context as PluginContext)
+    const result = await plugin.tool!["worktrunk-create"].execute({ branch: "feature/provision" }, {} as any)
+
+    expect(result).toContain("Provisioned the worktree:\n- Copied .env\n- Ran 'npm install'")
+    expect(existsSync(join(target, ".env"))).toBe(true)
+    expect(commands.some(command => command.startsWith("sh -c") && command.includes("npm install"))).toBe(true)
+  })
+
+  test("skipProvision leaves the worktree alone", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { context, commands, target } = setup()
+    const plugin = await WorkTrunkPlugin(context as PluginContext)
+    const result = await plugin.tool!["worktrunk-create"].execute({ branch: "feature/provision", skipProvision: true }, {} as any)
+
+    expect(result).toContain("Provisioning skipped (skipProvision: true).")
+    expect(existsSync(join(target, ".env"))).toBe(false)
+    expect(commands.some(command => command.includes("npm install"))).toBe(false)
+  })
+})
@@ -0,0 +1,135 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { mkdirSync, mkdtempSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { formatPruneReport, parseGoneBranches, pruneReasons } from "../prune.ts"
+
+const DAY = 86400000
+const now = Date.now()
+const daysAgo = (days: number) => Math.floor((now - days * DAY) / 1000)
+
+const WORKTREES = JSON.stringify([
+  { branch: "main", path: "/repo", is_main: true, commit: { sha: "aaa111", timestamp: daysAgo(0) } },
+  { branch: "feature/merged", path: "/repo.merged", commit: { sha: "bbb222", timestamp: daysAgo(2) } },
+  { branch: "feature/fresh", path: "/repo.fresh", commit: { sha: "aaa111", timestamp: daysAgo(0) } },
+  { branch: "feature/gone", path: "/repo.gone", commit: { sha: "ccc333", timestamp: daysAgo(3) } },
+  { branch: "feature/old", path: "/repo.old", commit: { sha: "ddd444", timestamp: daysAgo(45) } },
+  { branch: "feature/dirty", path: "/repo.dirty", dirty: true, commit: { sha: "eee555", timestamp: daysAgo(1) } },
+  { branch: "feature/untracked", path: "/repo.untracked", commit: { sha: "fff666", timestamp: daysAgo(1) } },
+  { branch: "feature/busy", path: "/repo.busy", marker: "🤖", commit: { sha: "ggg777", timestamp: daysAgo(1) } },
+  { branch: "feature/active", path: "/repo.active", commit: { sha: "hhh888", timestamp: daysAgo(1) } },
+  { branch: "feature/no-worktree" },
+])
+
+const MERGED = ["main", "feature/merged", "feature/fresh", "feature/dirty", "feature/untracked", "feature/busy"].join("\n")
+
+const makeContext = (commands: string[], options: { fetchFails?: boolean } = {}): Partial<PluginContext> => {
+  const commonDir = mkdtempSync(join(tmpdir(), "worktrunk-prune-"))
+  mkdirSync(join(commonDir, "opencode-worktrunk"))
+  return {
+    $: ((strings: TemplateStringsArray, ...values: any[]) => {
+      const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ").replace(/\s+/g, " ")
+      commands.push(command)
+      const respond = (stdout: string) => Promise.resolve({ stdout: Buffer.from(stdout) })
+      return {
+        quiet: () => {
+          if (command.includes("fetch --all") && options.fetchFails) {
+            return Promise.reject(Object.assign(new Error("Failed with exit code 128"), {
+              stderr: Buffer.from("fatal: unable to access 'https://example.com/repo.git/'"),
+              exitCode: 128,
+            }))
+          }
+          if (command.includes("--git-common-dir")) return respond(commonDir)
+          if (command.includes("wt list")) return respond(WORKTREES)
+          if (command.includes("default-branch")) return respond("main\n")
+          if (command.includes("--merged main")) return respond(MERGED)
+          if (command.includes("for-each-ref")) return respond("main\t\nfeature/gone\t[gone]\nfeature/active\t[ahead 1]\n")
+          if (command.includes("/repo.dirty status --porcelain")) return respond(" M src/api.ts\n")
+          if (command.includes("/repo.untracked status --porcelain")) return respond("?? notes.txt\n")
+          if (command.includes("--abbrev-ref HEAD")) return respond("main")
+          return respond("")
+        },
+      }
+    }) as any,
+    client: {
+      app: {
+        log: async () => {},
+      },
+    } as any,
+    project: {} as any,
+    directory: "/repo",
+    worktree: {} as any,
+  }
+}
+
+const row = (result: string, branch: string) => result.split("\n").find(line => line.startsWith(`${branch} `)) ?? ""
+
+describe("prune policy", () => {
+  test("gives every reason a branch can be pruned", () => {
+    const candidate = { branch: "feature/x", merged: true, upstreamGone: true, committedAt: now - 40 * DAY }
+    expect(pruneReasons(candidate, "main", 30 * DAY, now)).toEqual(["merged into main", "upstream gone", "no commits for 40d"])
+    expect(pruneReasons({ ...candidate, merged: false, upstreamGone: false, committedAt: now - DAY }, "main", 30 * DAY, now)).toEqual([])
+  })
+
+  test("reads gone upstreams from for-each-ref", () => {
+    expect([...parseGoneBranches("a\t[gone]\nb\t[behind 2]\nc\t\n")]).toEqual(["a"])
+  })
+
+  test("dry run report says how to remove", () => {
+    const report = formatPruneReport([{ branch: "feature/x", status: "would remove", detail: "upstream gone" }], true)
+    expect(report).toEndWith("Dry run, nothing removed: 1 would remove\nCall again with confirm: true to remove them.")
+    expect(formatPruneReport([], true)).toBe("No worktrees to prune.")
+  })
+})
+
+describe("worktrunk-prune tool", () => {
+  test("dry run reports what would be removed and why others are kept", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(commands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-prune"].execute({}, {} as any) as string
+
+    expect(commands.filter(command => command.includes("fetch --all --prune"))).toHaveLength(1)
+    expect(commands.some(command => command.includes("wt remove"))).toBe(false)
+    expect(row(result, "feature/merged")).toMatch(/would remove\s+merged into main$/)
+    expect(row(result, "feature/gone")).toMatch(/would remove\s+upstream gone$/)
+    expect(row(result, "feature/old")).toMatch(/would remove\s+no commits for 45d$/)
+    expect(row(result, "main")).toMatch(/kept\s+main worktree$/)
+    expect(row(result, "feature/fresh")).toMatch(/kept\s+in use \(no commits of its own yet\)$/)
+    expect(row(result, "feature/dirty")).toMatch(/kept\s+merged into main, but 1 uncommitted change\(s\): src\/api.ts$/)
+    expect(row(result, "feature/untracked")).toContain("but 1 untracked file(s): notes.txt")
+    expect(row(result, "feature/busy")).toContain("but active marker 🤖")
+    expect(row(result, "feature/active")).toMatch(/kept\s+in use \(not merged, upstream present, last commit 1d ago\)$/)
+    expect(result).not.toContain("feature/no-worktree")
+    expect(result).toContain("Dry run, nothing removed: 3 would remove, 6 kept")
+  })
+
+  test("confirm removes only the prunable worktrees", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(commands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-prune"].execute({ confirm: true, idleDays: 60 }, {} as any) as string
+
+    const removed = commands.filter(command => command.startsWith("wt remove")).map(command => command.split(" ").pop())
+    expect(removed).toEqual(["feature/merged", "feature/gone"])
+    expect(row(result, "feature/merged")).toMatch(/removed\s+merged into main$/)
+    expect(row(result, "feature/old")).toContain("in use")
+    expect(result).toEndWith("2 removed, 7 kept")
+  })
+
+  test("keeps going when the fetch fails", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const plugin = await WorkTrunkPlugin(makeContext([], { fetchFails: true }) as PluginContext)
+    const result = await plugin.tool!["worktrunk-prune"].execute({}, {} as any) as string
+
+    expect(result).toStartWith("Note: fetch failed, so upstream checks use the last fetched state")
+    expect(row(result, "feature/merged")).toContain("would remove")
+  })
+})
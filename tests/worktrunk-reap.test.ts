@@ -0,0 +1,151 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { findStaleMarkers } from "../owners.ts"
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const DEAD_PID = 99999999
+
+// Mock shell with a real git common dir holding the owner records
+const makeContext = (owners: object, markerCommands: string[]) => {
+  const commonDir = mkdtempSync(join(tmpdir(), "worktrunk-reap-"))
+  mkdirSync(join(commonDir, "opencode-worktrunk"))
+  const ownersFile = join(commonDir, "opencode-worktrunk", "marker-owners.json")
+  writeFileSync(ownersFile, JSON.stringify(owners))
+  const mockContext: Partial<PluginContext> = {
+    $: ((strings: TemplateStringsArray, ...values: any[]) => {
+      const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+      if (command.includes("marker set")) {
+        markerCommands.push(command)
+      }
+      return {
+        quiet: () => {
+          if (command.includes("--git-common-dir")) {
+            return Promise.resolve({ stdout: Buffer.from(commonDir) })
+          }
+          return Promise.resolve({ stdout: Buffer.from("main") })
+        },
+      }
+    }) as any,
+    client: {
+      app: {
+        log: async () => {},
+      },
+    } as any,
+    project: {} as any,
+    directory: "/nonexistent/worktrunk-reap-test",
+    worktree: {} as any,
+  }
+  const readOwners = () => JSON.parse(readFileSync(ownersFile, "utf8"))
+  const readState = (file: string) => readFileSync(join(commonDir, "opencode-worktrunk", file), "utf8")
+  return { mockContext, readOwners, readState, ownersFile }
+}
+
+describe("stale marker detection", () => {
+  test("flags dead owners and old heartbeats", () => {
+    const now = 10 * 60000
+    const stale = findStaleMarkers({
+      "feature/crashed": { pid: 1, sessionID: "ses_a", marker: "🤖", heartbeat: now },
+      "feature/old": { pid: 2, sessionID: null, marker: "💬", heartbeat: 0 },
+      "feature/live": { pid: 3, sessionID: null, marker: "🤖", heartbeat: now - 1000 },
+    }, now, 5 * 60000, (pid) => pid !== 1)
+
+    expect(stale.map(({ branch }) => branch)).toEqual(["feature/crashed", "feature/old"])
+    expect(stale[0].reason).toContain("process 1 is gone")
+    expect(stale[1].reason).toContain("no heartbeat for 10 min")
+  })
+})
+
+describe("worktrunk-reap tool", () => {
+  const owners = () => ({
+    "feature/crashed": { pid: DEAD_PID, sessionID: "ses_dead", marker: "🤖", heartbeat: Date.now() },
+    "feature/stale": { pid: process.pid, sessionID: null, marker: "💬", heartbeat: Date.now() - 2 * 3600000 },
+    "feature/live": { pid: process.pid, sessionID: "ses_live", marker: "🤖", heartbeat: Date.now() },
+  })
+
+  test("dry run reports without clearing", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const { mockContext, readOwners } = makeContext(owners(), markerCommands)
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    const result = await plugin.tool!["worktrunk-reap"].execute({ dryRun: true }, {} as any)
+
+    expect(result).toContain("dry run")
+    expect(result).toContain("feature/crashed")
+    expect(result).toContain("session ses_dead")
+    expect(result).toContain("feature/stale")
+    expect(result).not.toContain("feature/live")
+    expect(markerCommands.length).toBe(0)
+    expect(Object.keys(readOwners()).length).toBe(3)
+  })
+
+  test("clears stale markers and their owner records", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const { mockContext, readOwners } = makeContext(owners(), markerCommands)
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    const result = await plugin.tool!["worktrunk-reap"].execute({}, {} as any)
+
+    expect(result).toContain("Cleared 2 stale marker(s)")
+    expect(markerCommands.some(cmd => cmd.includes('""') && cmd.includes("feature/crashed"))).toBe(true)
+    expect(markerCommands.some(cmd => cmd.includes('""') && cmd.includes("feature/stale"))).toBe(true)
+    expect(Object.keys(readOwners())).toEqual(["feature/live"])
+  })
+
+  test("reaped markers are recorded as ended in the states and history", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { mockContext, readState } = makeContext(owners(), [])
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    await plugin.tool!["worktrunk-reap"].execute({}, {} as any)
+
+    const states = JSON.parse(readState("marker-states.json"))
+    expect(states["feature/crashed"]).toMatchObject({ state: "ended", marker: null, sessionID: "ses_dead" })
+    expect(states["feature/stale"]).toMatchObject({ state: "ended", marker: null, sessionID: null })
+    const history = readState("marker-history.jsonl").trim().split("\n").map(line => JSON.parse(line))
+    expect(history.map(({ branch, state, marker }) => ({ branch, state, marker }))).toEqual([
+      { branch: "feature/crashed", state: "ended", marker: null },
+      { branch: "feature/stale", state: "ended", marker: null },
+    ])
+  })
+
+  test("markers set by the plugin record an owner", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const { mockContext, readOwners } = makeContext({}, markerCommands)
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_1" } } as any })
+    await wait(300)
+
+    const owner = readOwners()["main"]
+    expect(owner.pid).toBe(process.pid)
+    expect(owner.sessionID).toBe("ses_1")
+    expect(owner.marker).toBe("🤖")
+  })
+
+  test("owner records wait for another process's lock", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { mockContext, readOwners, ownersFile } = makeContext({}, [])
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    writeFileSync(`${ownersFile}.lock`, "")
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_1" } } as any })
+    await wait(300)
+    expect(readOwners()).toEqual({})
+
+    rmSync(`${ownersFile}.lock`)
+    await wait(100)
+    expect(readOwners().main.sessionID).toBe("ses_1")
+  })
+})
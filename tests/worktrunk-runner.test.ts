@@ -0,0 +1,137 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { classifyFailure, CommandError, CommandErrorKind, createRunner, DEFAULT_TIMEOUTS, formatCommandError, resolveTimeout } from "../runner.ts"
+
+// A failed Bun shell command: generic message, details in stderr
+const shellError = (stderr: string, exitCode = 1) =>
+  Object.assign(new Error(`Failed with exit code ${exitCode}`), { stderr: Buffer.from(stderr), stdout: Buffer.from(""), exitCode })
+
+describe("failure classification", () => {
+  test("maps wt and git output to error kinds", () => {
+    expect(classifyFailure("bun: command not found: wt")).toBe(CommandErrorKind.NotInstalled)
+    expect(classifyFailure("fatal: not a git repository (or any of the parent directories): .git")).toBe(CommandErrorKind.NotARepo)
+    expect(classifyFailure("fatal: a branch named 'feature/x' already exists")).toBe(CommandErrorKind.BranchExists)
+    expect(classifyFailure("fatal: invalid reference: feature/nope")).toBe(CommandErrorKind.BranchNotFound)
+    expect(classifyFailure("error: Your local changes to the following files would be overwritten by checkout")).toBe(CommandErrorKind.DirtyWorktree)
+    expect(classifyFailure("CONFLICT (content): Merge conflict in src/a.ts")).toBe(CommandErrorKind.Conflict)
+    expect(classifyFailure("fatal: something else went wrong")).toBe(CommandErrorKind.Failed)
+  })
+
+  test("timeouts use the longest matching command prefix", () => {
+    expect(resolveTimeout("wt merge --yes main", DEFAULT_TIMEOUTS)).toBe(600)
+    expect(resolveTimeout("wt list --format=json", DEFAULT_TIMEOUTS)).toBe(30)
+    expect(resolveTimeout("wt merged", { default: 5, "wt merge": 60 })).toBe(5)
+    expect(resolveTimeout("git -C /x rebase main", { default: 5, git: 10, "git rebase": 20 })).toBe(20)
+    expect(resolveTimeout("git -C /x fetch --all", DEFAULT_TIMEOUTS)).toBe(300)
+  })
+})
+
+describe("command runner", () => {
+  test("captures stdout, stderr and exit code", async () => {
+    const run = createRunner(((strings: TemplateStringsArray, ...values: any[]) => ({
+      quiet: () => Promise.resolve({ stdout: Buffer.from("ok\n"), stderr: Buffer.from("warning\n"), exitCode: 0 }),
+    })) as any)
+    const flags = ["--format=json", "--full"]
+    const result = await run`wt list ${flags}`
+
+    expect(result).toEqual({ command: "wt list --format=json --full", stdout: "ok\n", stderr: "warning\n", exitCode: 0 })
+  })
+
+  test("turns shell failures into typed errors", async () => {
+    const run = createRunner((() => ({
+      quiet: () => Promise.reject(shellError("fatal: a branch named 'feature/x' already exists", 128)),
+    })) as any)
+
+    const error = await run`wt switch --create feature/x`.catch((e) => e)
+    expect(error).toBeInstanceOf(CommandError)
+    expect(error.kind).toBe(CommandErrorKind.BranchExists)
+    expect(error.exitCode).toBe(128)
+    expect(error.message).toBe("fatal: a branch named 'feature/x' already exists")
+    expect(error.command).toBe("wt switch --create feature/x")
+  })
+
+  test("times out commands that never finish", async () => {
+    const run = createRunner((() => ({
+      quiet: () => new Promise(() => {}),
+    })) as any, () => ({ default: 0.05 }))
+
+    const error = await run`wt list`.catch((e) => e)
+    expect(error.kind).toBe(CommandErrorKind.Timeout)
+    expect(error.message).toContain("timed out after 0.05s")
+  })
+
+  test("formats errors the same way for every kind", () => {
+    const notFound = new CommandError(CommandErrorKind.BranchNotFound, "wt remove --yes x", "Worktree 'x' not found")
+    expect(formatCommandError(notFound, { action: "removing worktree 'x'", branch: "x" }))
+      .toBe("Error removing worktree 'x': Worktree 'x' not found\n\nTroubleshooting:\n- Use 'worktrunk-list' to see available worktrees\n- Check the branch name spelling")
+
+    const failed = new CommandError(CommandErrorKind.Failed, "wt list", "boom")
+    expect(formatCommandError(failed, { action: "running 'wt list'", troubleshooting: ["Check wt"] }))
+      .toBe("Error running 'wt list': boom\n\nTroubleshooting:\n- Check wt")
+
+    const missing = new CommandError(CommandErrorKind.NotInstalled, "wt --version", "command not found: wt")
+    expect(formatCommandError(missing, { action: "running 'wt list'" })).toContain("WorkTrunk is not installed")
+  })
+})
+
+describe("tools use the runner", () => {
+  test("a hanging wt command is reported with the configured timeout", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const dir = mkdtempSync(join(tmpdir(), "worktrunk-runner-"))
+    mkdirSync(join(dir, ".opencode"))
+    writeFileSync(join(dir, ".opencode", "worktrunk.json"), JSON.stringify({ timeouts: { "wt list": 0.05 } }))
+    const mockContext: Partial<PluginContext> = {
+      $: ((strings: TemplateStringsArray) => ({
+        quiet: () => strings.join("").includes("wt list")
+          ? new Promise(() => {})
+          : Promise.resolve({ stdout: Buffer.from("main") }),
+      })) as any,
+      client: {
+        app: {
+          log: async () => {},
+        },
+      } as any,
+      project: {} as any,
+      directory: dir,
+      worktree: {} as any,
+    }
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    const result = await plugin.tool!["worktrunk-list"].execute({}, {} as any)
+
+    expect(result).toContain("Error running 'wt list': 'wt list --format=json' timed out after 0.05s")
+    expect(result).toContain("\"timeouts\"")
+  })
+
+  test("dirty worktrees are reported as such", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const mockContext: Partial<PluginContext> = {
+      $: ((strings: TemplateStringsArray) => ({
+        quiet: () => strings.join("").includes("wt remove")
+          ? Promise.reject(shellError("error: worktree contains modified or untracked files, use --force to delete it"))
+          : Promise.resolve({ stdout: Buffer.from("main") }),
+      })) as any,
+      client: {
+        app: {
+          log: async () => {},
+        },
+      } as any,
+      project: {} as any,
+      directory: "/test",
+      worktree: {} as any,
+    }
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    const result = await plugin.tool!["worktrunk-remove"].execute({ branch: "feature/x" }, {} as any)
+
+    expect(result).toContain("Error removing worktree 'feature/x': the worktree has uncommitted changes")
+    expect(result).toContain("Commit or stash")
+  })
+})
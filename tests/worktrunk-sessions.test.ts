@@ -0,0 +1,128 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe("Per-session status markers", () => {
+  test("markers are set on the branch of the session that sent the event", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const mockContext: Partial<PluginContext> = {
+      $: ((strings: TemplateStringsArray, ...values: any[]) => {
+        const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+        if (command.includes("marker set")) {
+          markerCommands.push(command)
+        }
+        return {
+          quiet: () => {
+            if (command.includes("/repo.feature-a")) {
+              return Promise.resolve({ stdout: Buffer.from("feature-a") })
+            }
+            if (command.includes("/repo.feature-b")) {
+              return Promise.resolve({ stdout: Buffer.from("feature-b") })
+            }
+            return Promise.resolve({ stdout: Buffer.from("main") })
+          },
+        }
+      }) as any,
+      client: {
+        app: {
+          log: async () => {},
+        },
+      } as any,
+      project: {} as any,
+      directory: "/repo",
+      worktree: {} as any,
+    }
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+
+    await plugin.event!({ event: { type: "session.created", properties: { info: { id: "ses_a", directory: "/repo.feature-a" } } } as any })
+    await plugin.event!({ event: { type: "session.created", properties: { info: { id: "ses_b", directory: "/repo.feature-b" } } } as any })
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_a" } } as any })
+    await wait(300)
+
+    expect(markerCommands.some(cmd => cmd.includes("🤖") && cmd.includes("feature-a"))).toBe(true)
+    expect(markerCommands.some(cmd => cmd.includes("💬") && cmd.includes("feature-b"))).toBe(true)
+    expect(markerCommands.some(cmd => cmd.includes("🤖") && cmd.includes("feature-b"))).toBe(false)
+  })
+
+  test("one session's events don't cancel another session's pending marker", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const mockContext: Partial<PluginContext> = {
+      $: ((strings: TemplateStringsArray, ...values: any[]) => {
+        const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+        if (command.includes("marker set")) {
+          markerCommands.push(command)
+        }
+        return {
+          quiet: () => {
+            if (command.includes("/repo.feature-a")) {
+              return Promise.resolve({ stdout: Buffer.from("feature-a") })
+            }
+            return Promise.resolve({ stdout: Buffer.from("main") })
+          },
+        }
+      }) as any,
+      client: {
+        app: {
+          log: async () => {},
+        },
+        session: {
+          get: async ({ path }: any) => ({ data: { id: path.id, directory: path.id === "ses_a" ? "/repo.feature-a" : "/repo" } }),
+        },
+      } as any,
+      project: {} as any,
+      directory: "/repo",
+      worktree: {} as any,
+    }
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+
+    // Sessions not seen before are resolved through client.session.get
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_a" } } as any })
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "idle" }, sessionID: "ses_main" } } as any })
+    await wait(300)
+
+    expect(markerCommands.some(cmd => cmd.includes("🤖") && cmd.includes("feature-a"))).toBe(true)
+    expect(markerCommands.some(cmd => cmd.includes("💬") && cmd.includes("main"))).toBe(true)
+  })
+
+  test("message events are attributed to the message's session", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const lookedUp: string[] = []
+    const mockContext: Partial<PluginContext> = {
+      $: ((strings: TemplateStringsArray, ...values: any[]) => ({
+        quiet: () => Promise.resolve({ stdout: Buffer.from("main") }),
+      })) as any,
+      client: {
+        app: {
+          log: async () => {},
+        },
+        session: {
+          get: async ({ path }: any) => {
+            lookedUp.push(path.id)
+            return { data: { id: path.id, directory: "/repo" } }
+          },
+        },
+      } as any,
+      project: {} as any,
+      directory: "/repo",
+      worktree: {} as any,
+    }
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    for (const id of ["msg_1", "msg_2"]) {
+      await plugin.event!({ event: { type: "message.updated", properties: { info: { id, sessionID: "ses_a" } } } as any })
+    }
+
+    expect(lookedUp.every(id => id === "ses_a")).toBe(true)
+  })
+})
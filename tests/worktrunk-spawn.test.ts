@@ -0,0 +1,137 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { mkdirSync, mkdtempSync, readFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { formatSpawnedSessions } from "../bindings.ts"
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+interface Calls {
+  commands: string[]
+  created: any[]
+  prompted: any[]
+}
+
+// Mock shell and client for a repo where feature/tests gets created at
+// /repo.feature-tests. The client hands out session ses_child.
+const makeContext = (calls: Calls, promptError?: object): Partial<PluginContext> => {
+  const commonDir = mkdtempSync(join(tmpdir(), "worktrunk-spawn-"))
+  mkdirSync(join(commonDir, "opencode-worktrunk"))
+  let created = false
+  return {
+    $: ((strings: TemplateStringsArray, ...values: any[]) => {
+      const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ").replace(/\s+/g, " ")
+      calls.commands.push(command)
+      const respond = (stdout: string) => Promise.resolve({ stdout: Buffer.from(stdout) })
+      return {
+        quiet: () => {
+          if (command.includes("--git-common-dir")) return respond(commonDir)
+          if (command.includes("wt switch --create")) {
+            created = true
+            return respond("Created worktree")
+          }
+          if (command.includes("wt list")) {
+            const worktrees: object[] = [{ branch: "main", path: "/repo", is_main: true }]
+            if (created) {
+              worktrees.push({ branch: "feature/tests", path: "/repo.feature-tests", marker: "🤖" })
+            }
+            return respond(JSON.stringify(worktrees))
+          }
+          if (command.includes("/repo.feature-tests")) return respond("feature/tests")
+          if (command.includes("rev-parse --abbrev-ref")) return respond("main")
+          return respond("")
+        },
+      }
+    }) as any,
+    client: {
+      app: {
+        log: async () => {},
+      },
+      session: {
+        get: async ({ path }: any) => ({ data: { id: path.id, directory: "/repo" } }),
+        create: async (options: any) => {
+          calls.created.push(options)
+          return { data: { id: "ses_child", directory: options.query.directory } }
+        },
+        promptAsync: async (options: any) => {
+          calls.prompted.push(options)
+          return promptError ? { error: promptError } : { data: undefined }
+        },
+      },
+    } as any,
+    project: {} as any,
+    directory: "/repo",
+    worktree: {} as any,
+  }
+}
+
+describe("spawned session listing", () => {
+  test("lists only the parent's children with their markers", () => {
+    const bindings = {
+      ses_a: { path: "/repo.a", branch: "feature/a", boundAt: 1, parentID: "ses_parent" },
+      ses_b: { path: "/repo.b", branch: "feature/b", boundAt: 2, parentID: "ses_parent" },
+      ses_c: { path: "/repo.c", branch: "feature/c", boundAt: 3, parentID: "ses_other" },
+      ses_d: { path: "/repo.d", branch: "feature/d", boundAt: 4 },
+    }
+    const worktrees = [{ branch: "feature/a", marker: "💬" }] as any[]
+
+    expect(formatSpawnedSessions(bindings, "ses_parent", worktrees))
+      .toBe("Spawned sessions:\n- feature/a (session ses_a): 💬\n- feature/b (session ses_b): worktree removed")
+    expect(formatSpawnedSessions(bindings, "ses_nobody", worktrees)).toBe("")
+  })
+})
+
+describe("worktrunk-spawn tool", () => {
+  test("creates the worktree, starts a child session there and prompts it", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const calls: Calls = { commands: [], created: [], prompted: [] }
+    const plugin = await WorkTrunkPlugin(makeContext(calls) as PluginContext)
+    const result = await plugin.tool!["worktrunk-spawn"].execute(
+      { branch: "feature/tests", prompt: "Add tests", base: "main" },
+      { sessionID: "ses_parent" } as any,
+    )
+
+    expect(result).toContain("Spawned session ses_child for branch feature/tests")
+    expect(result).toContain("Working directory: /repo.feature-tests")
+    expect(calls.commands.some(cmd => cmd.startsWith("wt switch --create --yes feature/tests --base="))).toBe(true)
+    expect(calls.created[0]).toEqual({ body: { parentID: "ses_parent", title: "feature/tests" }, query: { directory: "/repo.feature-tests" } })
+    expect(calls.prompted[0].path).toEqual({ id: "ses_child" })
+    expect(calls.prompted[0].body.parts).toEqual([{ type: "text", text: "Add tests" }])
+    expect(calls.prompted[0].query).toEqual({ directory: "/repo.feature-tests" })
+
+    // The child's marker goes on its own branch
+    await wait(300)
+    expect(calls.commands.some(cmd => cmd.includes("marker set") && cmd.includes("🤖") && cmd.includes("--branch feature/tests"))).toBe(true)
+
+    const list = await plugin.tool!["worktrunk-list"].execute({}, { sessionID: "ses_parent" } as any)
+    expect(list).toContain("Spawned sessions:\n- feature/tests (session ses_child): 🤖")
+  })
+
+  test("reports a failed prompt and keeps the worktree", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const calls: Calls = { commands: [], created: [], prompted: [] }
+    const plugin = await WorkTrunkPlugin(makeContext(calls, { name: "NotFoundError" }) as PluginContext)
+    const result = await plugin.tool!["worktrunk-spawn"].execute({ branch: "feature/tests", prompt: "Add tests" }, { sessionID: "ses_parent" } as any)
+
+    expect(result).toContain("Error starting a session in worktree '/repo.feature-tests'")
+    expect(result).toContain("Session ses_child was created but the prompt wasn't sent")
+    expect(calls.commands.some(cmd => cmd.includes("wt remove"))).toBe(false)
+  })
+
+  test("needs a new branch name", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const calls: Calls = { commands: [], created: [], prompted: [] }
+    const plugin = await WorkTrunkPlugin(makeContext(calls) as PluginContext)
+    const result = await plugin.tool!["worktrunk-spawn"].execute({ branch: "@", prompt: "Add tests" }, {} as any)
+
+    expect(result).toContain("needs a new branch name")
+    expect(calls.created).toEqual([])
+  })
+})
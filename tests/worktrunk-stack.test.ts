@@ -0,0 +1,211 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { mkdtempSync, readFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { formatStackTree, getDescendants, reparentChildren } from "../stack.ts"
+
+const WT_LIST_JSON = JSON.stringify([
+  { branch: "main", path: "/repo" },
+  { branch: "feature/part1", path: "/repo.part1" },
+  { branch: "feature/part2", path: "/repo.part2" },
+  { branch: "feature/part3", path: "/repo.part3" },
+])
+
+// Mock shell with a real git common dir so the stack store can be written
+const makeContext = (respond: (command: string) => Promise<any> | undefined, commands: string[] = []) => {
+  const commonDir = mkdtempSync(join(tmpdir(), "worktrunk-stack-"))
+  const mockContext: Partial<PluginContext> = {
+    $: ((strings: TemplateStringsArray, ...values: any[]) => {
+      const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+      commands.push(command)
+      return {
+        quiet: () => {
+          if (command.includes("--git-common-dir")) {
+            return Promise.resolve({ stdout: Buffer.from(commonDir) })
+          }
+          return respond(command) ?? Promise.resolve({ stdout: Buffer.from("") })
+        },
+      }
+    }) as any,
+    client: {
+      app: {
+        log: async () => {},
+      },
+    } as any,
+    project: {} as any,
+    directory: "/repo",
+    worktree: {} as any,
+  }
+  return { mockContext, commonDir }
+}
+
+describe("stack graph", () => {
+  const graph = {
+    "feature/part1": "main",
+    "feature/part2": "feature/part1",
+    "feature/part3": "feature/part2",
+    "feature/side": "feature/part1",
+  }
+
+  test("descendants are listed parents first", () => {
+    expect(getDescendants(graph, "feature/part1")).toEqual(["feature/part2", "feature/part3", "feature/side"])
+    expect(getDescendants(graph, "feature/part3")).toEqual([])
+  })
+
+  test("renders a tree", () => {
+    expect(formatStackTree(graph)).toBe([
+      "main",
+      "└── feature/part1",
+      "    ├── feature/part2",
+      "    │   └── feature/part3",
+      "    └── feature/side",
+    ].join("\n"))
+  })
+
+  test("reparents children of a merged branch", () => {
+    expect(reparentChildren(graph, "feature/part1", "main")).toEqual({
+      "feature/part2": "main",
+      "feature/part3": "feature/part2",
+      "feature/side": "main",
+    })
+  })
+})
+
+describe("worktrunk-stack tool", () => {
+  test("worktrunk-create records the base of stacked branches", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { mockContext, commonDir } = makeContext((command) => {
+      if (command.includes("rev-parse --abbrev-ref")) {
+        return Promise.resolve({ stdout: Buffer.from("feature/part1") })
+      }
+    })
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    await plugin.tool!["worktrunk-create"].execute({ branch: "feature/part2", base: "@" }, {} as any)
+    await plugin.tool!["worktrunk-create"].execute({ branch: "feature/part3", base: "feature/part2" }, {} as any)
+
+    const stored = JSON.parse(readFileSync(join(commonDir, "opencode-worktrunk", "stack.json"), "utf8"))
+    expect(stored).toEqual({ "feature/part2": "feature/part1", "feature/part3": "feature/part2" })
+
+    const result = await plugin.tool!["worktrunk-stack"].execute({}, {} as any)
+    expect(result).toContain("feature/part1\n└── feature/part2\n    └── feature/part3")
+  })
+
+  test("parallel creates keep every stack entry", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { mockContext, commonDir } = makeContext(() => undefined)
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    const branches = ["feature/a", "feature/b", "feature/c", "feature/d"]
+    await Promise.all(branches.map(branch => plugin.tool!["worktrunk-create"].execute({ branch, base: "main" }, {} as any)))
+
+    const stored = JSON.parse(readFileSync(join(commonDir, "opencode-worktrunk", "stack.json"), "utf8"))
+    expect(Object.keys(stored).sort()).toEqual(branches)
+  })
+
+  test("show marks children whose parent moved", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const { mockContext } = makeContext((command) => {
+      if (command.includes("merge-base") && command.includes("feature/part3")) {
+        const error: any = new Error("Failed with exit code 1")
+        error.exitCode = 1
+        return Promise.reject(error)
+      }
+    })
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    await plugin.tool!["worktrunk-create"].execute({ branch: "feature/part2", base: "feature/part1" }, {} as any)
+    await plugin.tool!["worktrunk-create"].execute({ branch: "feature/part3", base: "feature/part2" }, {} as any)
+
+    const result = await plugin.tool!["worktrunk-stack"].execute({ action: "show" }, {} as any)
+    expect(result).toContain("feature/part3  (needs restack)")
+    expect(result).not.toContain("feature/part2  (needs restack)")
+    expect(result).toContain("Needs restack: feature/part3")
+  })
+
+  test("restack rebases in order and stops at the first conflict", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const { mockContext } = makeContext((command) => {
+      if (command.includes("wt list")) {
+        return Promise.resolve({ stdout: Buffer.from(WT_LIST_JSON) })
+      }
+      if (command.includes("rebase") && command.includes("/repo.part3")) {
+        const error: any = new Error("Failed with exit code 1")
+        error.stdout = Buffer.from("CONFLICT (content): Merge conflict in src/api.ts")
+        return Promise.reject(error)
+      }
+    }, commands)
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    await plugin.tool!["worktrunk-create"].execute({ branch: "feature/part2", base: "feature/part1" }, {} as any)
+    await plugin.tool!["worktrunk-create"].execute({ branch: "feature/part3", base: "feature/part2" }, {} as any)
+    await plugin.tool!["worktrunk-create"].execute({ branch: "feature/part4", base: "feature/part3" }, {} as any)
+
+    const result = await plugin.tool!["worktrunk-stack"].execute({ action: "restack", branch: "feature/part1" }, {} as any)
+    const rebases = commands.filter(cmd => cmd.includes("rebase"))
+    expect(rebases.length).toBe(2)
+    expect(rebases[0]).toContain("/repo.part2")
+    expect(rebases[0]).toContain("feature/part1")
+    expect(rebases[1]).toContain("/repo.part3")
+    expect(result).toContain("Restacked: feature/part2")
+    expect(result).toContain("Conflict rebasing 'feature/part3' onto 'feature/part2'")
+    expect(result).toContain("- src/api.ts")
+  })
+
+  test("restack replays only the branch's own commits onto the parent", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const { mockContext, commonDir } = makeContext((command) => {
+      if (command.includes("wt list")) {
+        return Promise.resolve({ stdout: Buffer.from(WT_LIST_JSON) })
+      }
+      if (command.includes("rev-parse --verify")) {
+        // part1's tip, before and after it was amended
+        const tip = commands.some(cmd => cmd.includes("rebase --onto")) ? "bbbbbbb2" : "aaaaaaa1"
+        return Promise.resolve({ stdout: Buffer.from(`${tip}\n`) })
+      }
+    }, commands)
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    await plugin.tool!["worktrunk-create"].execute({ branch: "feature/part2", base: "feature/part1" }, {} as any)
+    const bases = join(commonDir, "opencode-worktrunk", "stack-bases.json")
+    expect(JSON.parse(readFileSync(bases, "utf8"))).toEqual({ "feature/part2": "aaaaaaa1" })
+
+    const result = await plugin.tool!["worktrunk-stack"].execute({ action: "restack", branch: "feature/part1" }, {} as any)
+    expect(result).toContain("Restacked 1 branch(es)")
+    expect(commands.find(cmd => cmd.includes("rebase"))?.replace(/\s+/g, " ")).toBe("git -C /repo.part2 rebase --onto feature/part1 aaaaaaa1")
+    expect(JSON.parse(readFileSync(bases, "utf8"))).toEqual({ "feature/part2": "bbbbbbb2" })
+  })
+
+  test("restack stops before a busy worktree", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const { mockContext } = makeContext((command) => {
+      if (command.includes("wt list")) {
+        const worktrees = JSON.parse(WT_LIST_JSON).map((wt: any) => wt.branch === "feature/part3" ? { ...wt, marker: "🤖" } : wt)
+        return Promise.resolve({ stdout: Buffer.from(JSON.stringify(worktrees)) })
+      }
+    }, commands)
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    await plugin.tool!["worktrunk-create"].execute({ branch: "feature/part2", base: "feature/part1" }, {} as any)
+    await plugin.tool!["worktrunk-create"].execute({ branch: "feature/part3", base: "feature/part2" }, {} as any)
+
+    const result = await plugin.tool!["worktrunk-stack"].execute({ action: "restack", branch: "feature/part1" }, {} as any)
+    expect(result).toContain("Restacked: feature/part2\nStopped at 'feature/part3': agent working (🤖)")
+    expect(commands.filter(cmd => cmd.includes("rebase")).length).toBe(1)
+  })
+})
@@ -0,0 +1,143 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { chooseSyncAction } from "../sync.ts"
+
+const WORKTREES = JSON.stringify([
+  { branch: "main", path: "/repo", is_main: true },
+  { branch: "feature/part2", path: "/repo.part2" },
+  { branch: "feature/a", path: "/repo.a" },
+  { branch: "feature/dirty", path: "/repo.dirty", dirty: true },
+  { branch: "feature/busy", path: "/repo.busy", marker: "🤖" },
+  { branch: "feature/editing", path: "/repo.editing", marker: "✏️" },
+  { branch: "feature/conflict", path: "/repo.conflict" },
+  { branch: "feature/no-worktree" },
+])
+
+// "ahead behind" per worktree path, as printed by rev-list --left-right --count
+const COUNTS: Record<string, string> = {
+  "/repo": "0\t4",
+  "/repo.part2": "1\t2",
+  "/repo.a": "3\t4",
+  "/repo.conflict": "1\t4",
+}
+
+// `hang` names a command that never finishes; `config` goes in .opencode/worktrunk.json
+const makeContext = (commands: string[], hang?: string, config?: object): Partial<PluginContext> => {
+  const commonDir = mkdtempSync(join(tmpdir(), "worktrunk-sync-"))
+  let directory = "/repo"
+  if (config) {
+    directory = mkdtempSync(join(tmpdir(), "worktrunk-sync-repo-"))
+    mkdirSync(join(directory, ".opencode"))
+    writeFileSync(join(directory, ".opencode", "worktrunk.json"), JSON.stringify(config))
+  }
+  mkdirSync(join(commonDir, "opencode-worktrunk"))
+  writeFileSync(join(commonDir, "opencode-worktrunk", "stack.json"), JSON.stringify({ "feature/part2": "feature/a" }))
+  return {
+    $: ((strings: TemplateStringsArray, ...values: any[]) => {
+      const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ").replace(/\s+/g, " ")
+      commands.push(command)
+      const respond = (stdout: string) => Promise.resolve({ stdout: Buffer.from(stdout) })
+      return {
+        quiet: () => {
+          if (command.includes("--git-common-dir")) return respond(commonDir)
+          if (hang && command.includes(hang)) return new Promise(() => {})
+          if (command.includes("wt list")) return respond(WORKTREES)
+          if (command.includes("default-branch")) return respond("main\n")
+          if (command.includes("main@{upstream}")) return respond("origin/main\n")
+          if (command.includes("rev-list --left-right")) {
+            const path = command.match(/git -C (\S+)/)![1]
+            return respond(COUNTS[path] ?? "0\t0")
+          }
+          if (command.includes("/repo.conflict rebase origin/main")) {
+            return Promise.reject(Object.assign(new Error("Failed with exit code 1"), {
+              stderr: Buffer.from("CONFLICT (content): Merge conflict in src/api.ts\nerror: could not apply 1a2b3c4"),
+              exitCode: 1,
+            }))
+          }
+          if (command.includes("--abbrev-ref HEAD")) return respond("main")
+          return respond("")
+        },
+      }
+    }) as any,
+    client: {
+      app: {
+        log: async () => {},
+      },
+    } as any,
+    project: {} as any,
+    directory,
+    worktree: {} as any,
+  }
+}
+
+describe("sync planning", () => {
+  test("chooses fast-forward, strategy or skip by divergence", () => {
+    expect(chooseSyncAction(0, 0, "rebase", "origin/main").action).toBe("none")
+    expect(chooseSyncAction(2, 0, "rebase", "origin/main").action).toBe("none")
+    expect(chooseSyncAction(0, 3, "merge", "origin/main")).toEqual({ action: "ff", detail: "fast-forward 3 commit(s) from origin/main" })
+    expect(chooseSyncAction(1, 3, "merge", "origin/main").action).toBe("merge")
+    expect(chooseSyncAction(1, 3, "ff", "origin/main").action).toBe("skip")
+  })
+})
+
+describe("worktrunk-sync tool", () => {
+  test("fetches once and updates each worktree onto its base", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(commands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-sync"].execute({}, {} as any) as string
+    const row = (branch: string) => result.split("\n").find(line => line.startsWith(`${branch} `)) ?? ""
+
+    expect(commands.filter(cmd => cmd.includes("fetch")).length).toBe(1)
+    expect(row("main")).toContain("updated")
+    expect(row("main")).toContain("fast-forward 4 commit(s) from origin/main")
+    expect(row("feature/a")).toContain("updated")
+    expect(row("feature/part2")).toContain("from feature/a")
+    expect(row("feature/dirty")).toMatch(/skipped\s+uncommitted changes/)
+    expect(row("feature/busy")).toContain("agent working (🤖)")
+    expect(row("feature/editing")).toContain("agent working (✏️)")
+    expect(row("feature/conflict")).toContain("conflicted")
+    expect(row("feature/conflict")).toContain("src/api.ts")
+    expect(result).not.toContain("feature/no-worktree")
+
+    expect(commands).toContain("git -C /repo merge --ff-only origin/main")
+    expect(commands).toContain("git -C /repo.a rebase origin/main")
+    expect(commands).toContain("git -C /repo.conflict rebase --abort")
+    expect(commands.some(cmd => cmd.includes("/repo.dirty") || cmd.includes("/repo.busy") || cmd.includes("/repo.editing"))).toBe(false)
+    // Stack parents are synced before their children
+    expect(commands.indexOf("git -C /repo.a rebase origin/main")).toBeLessThan(commands.indexOf("git -C /repo.part2 rebase feature/a"))
+  })
+
+  test("dry run reports without updating worktrees", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(commands) as PluginContext)
+    const result = await plugin.tool!["worktrunk-sync"].execute({ dryRun: true, strategy: "ff" }, {} as any) as string
+
+    expect(result).toContain("Dry run, no worktree changed")
+    expect(result).toContain("would update")
+    expect(result).toContain("fast-forward only")
+    expect(commands.some(cmd => / (rebase|merge) /.test(cmd))).toBe(false)
+  })
+
+  test("stops at a timed-out command instead of moving on", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const commands: string[] = []
+    const context = makeContext(commands, "/repo.a rebase", { timeouts: { "git rebase": 0.05 } })
+    const plugin = await WorkTrunkPlugin(context as PluginContext)
+    const result = await plugin.tool!["worktrunk-sync"].execute({}, {} as any) as string
+
+    expect(result).toMatch(/feature\/a\s+failed\s+'git -C \/repo\.a rebase origin\/main' timed out after 0\.05s/)
+    expect(result).toContain("Stopped after a timeout in /repo.a: the command may still be running there")
+    expect(commands.some(cmd => cmd.includes("/repo.conflict rebase") || cmd.includes("/repo.part2 rebase"))).toBe(false)
+  })
+})
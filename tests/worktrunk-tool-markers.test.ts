@@ -0,0 +1,116 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Mock shell on branch feature/a that records marker commands
+const makeContext = (markerCommands: string[]): Partial<PluginContext> => ({
+  $: ((strings: TemplateStringsArray, ...values: any[]) => {
+    const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+    if (command.includes("marker set")) {
+      markerCommands.push(command)
+    }
+    return {
+      quiet: () => Promise.resolve({ stdout: Buffer.from("feature/a") }),
+    }
+  }) as any,
+  client: {
+    app: {
+      log: async () => {},
+    },
+    session: {
+      get: async ({ path }: any) => ({ data: { id: path.id, directory: "/repo" } }),
+    },
+  } as any,
+  project: {} as any,
+  directory: "/repo",
+  worktree: {} as any,
+})
+
+const call = (tool: string, callID: string) => ({ tool, sessionID: "ses_1", callID })
+
+describe("tool activity markers", () => {
+  test("running tools show their mapped marker, then back to working", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(markerCommands) as PluginContext)
+
+    await plugin["tool.execute.before"]!(call("edit", "c1"), { args: {} })
+    await wait(300)
+    expect(markerCommands.at(-1)).toContain("✏️")
+
+    // session.status doesn't replace the tool's marker while it runs
+    await plugin.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_1" } } as any })
+    await wait(300)
+    expect(markerCommands.at(-1)).toContain("✏️")
+
+    await plugin["tool.execute.after"]!(call("edit", "c1"), { title: "", output: "", metadata: {} })
+    await wait(300)
+    expect(markerCommands.at(-1)).toContain("🤖")
+
+    await plugin["tool.execute.before"]!(call("bash", "c2"), { args: { command: "bun test" } })
+    await wait(300)
+    expect(markerCommands.at(-1)).toContain("🧪")
+  })
+
+  test("tools that never finished are dropped when the session stops", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(markerCommands) as PluginContext)
+
+    for (const stop of ["session.idle", "session.error"]) {
+      // A tool that throws never reaches tool.execute.after
+      await plugin["tool.execute.before"]!(call("edit", `c_${stop}`), { args: {} })
+      await plugin.event!({ event: { type: stop, properties: { sessionID: "ses_1" } } as any })
+      await plugin.event!({ event: { type: "session.status", properties: { status: { type: "busy" }, sessionID: "ses_1" } } as any })
+      await wait(300)
+      expect(markerCommands.at(-1)).toContain("🤖")
+    }
+  })
+
+  test("short tool calls are debounced away", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(markerCommands) as PluginContext)
+
+    await plugin["tool.execute.before"]!(call("edit", "c1"), { args: {} })
+    await plugin["tool.execute.after"]!(call("edit", "c1"), { title: "", output: "", metadata: {} })
+    await wait(300)
+
+    expect(markerCommands.some(cmd => cmd.includes("✏️"))).toBe(false)
+    expect(markerCommands.at(-1)).toContain("🤖")
+  })
+
+  test("unmapped tools leave the marker alone", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(markerCommands) as PluginContext)
+
+    await plugin["tool.execute.before"]!(call("read", "c1"), { args: {} })
+    await plugin["tool.execute.after"]!(call("read", "c1"), { title: "", output: "", metadata: {} })
+    await wait(300)
+
+    expect(markerCommands.filter(cmd => !cmd.includes("💬"))).toEqual([])
+  })
+
+  test("permission requests show the permission marker", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const markerCommands: string[] = []
+    const plugin = await WorkTrunkPlugin(makeContext(markerCommands) as PluginContext)
+
+    await plugin["permission.ask"]!({ id: "per_1", type: "bash", sessionID: "ses_1", messageID: "msg_1", title: "Run bun test", metadata: {}, time: { created: Date.now() } } as any, { status: "ask" })
+    await wait(300)
+
+    expect(markerCommands.at(-1)).toContain("🔐")
+  })
+})
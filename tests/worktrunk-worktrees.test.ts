@@ -0,0 +1,109 @@
+import { describe, test, expect } from "bun:test"
+import type { PluginContext } from "@opencode-ai/plugin"
+import { formatWorktreeTable, parseWorktreeList } from "../worktrees.ts"
+
+const WT_LIST_JSON = JSON.stringify([
+  {
+    branch: "main",
+    path: "/repo",
+    commit: { sha: "a058e792c0ffee", message: "Initial commit" },
+    working_tree: { staged: false, modified: false, untracked: false },
+    main_state: "is_main",
+    is_current: true,
+  },
+  {
+    branch: "feature-api",
+    path: "/repo.feature-api",
+    commit: { sha: "95e48b49deadbeef" },
+    working_tree: { staged: false, modified: true, untracked: false },
+    main: { ahead: 1, behind: 2 },
+    remote: { name: "origin", branch: "feature-api", ahead: 1, behind: 0 },
+    ci: { status: "passed", source: "pr", url: "https://example.com/pr/1" },
+    marker: "🤖",
+  },
+])
+
+describe("wt list JSON parsing", () => {
+  test("parses nested WorkTrunk records into WorktreeInfo", () => {
+    const { worktrees, error } = parseWorktreeList(WT_LIST_JSON)
+    expect(error).toBeNull()
+    expect(worktrees.length).toBe(2)
+
+    const [main, feature] = worktrees
+    expect(main.isMain).toBe(true)
+    expect(main.isCurrent).toBe(true)
+    expect(main.dirty).toBe(false)
+    expect(main.message).toBe("Initial commit")
+    expect(main.committedAt).toBeNull()
+    expect(feature.head).toBe("95e48b49deadbeef")
+    expect(feature.ahead).toBe(1)
+    expect(feature.behind).toBe(2)
+    expect(feature.dirty).toBe(true)
+    expect(feature.marker).toBe("🤖")
+    expect(feature.remote).toEqual({ name: "origin", branch: "feature-api", ahead: 1, behind: 0 })
+    expect(feature.ci?.status).toBe("passed")
+    expect(feature.ci?.source).toBe("pr")
+  })
+
+  test("accepts flat aliases", () => {
+    const { worktrees } = parseWorktreeList(JSON.stringify([{ branch: "main", ci_status: "passing", dirty: true, ahead: "3" }]))
+    expect(worktrees[0].ci?.status).toBe("passing")
+    expect(worktrees[0].dirty).toBe(true)
+    expect(worktrees[0].ahead).toBe(3)
+    expect(parseWorktreeList(JSON.stringify([{ branch: "main", timestamp: 1700000000 }])).worktrees[0].committedAt).toBe(1700000000000)
+    expect(worktrees[0].path).toBeNull()
+  })
+
+  test("never throws on malformed output", () => {
+    expect(parseWorktreeList("Branch  Status\nmain    active").error).toContain("Could not parse")
+    expect(parseWorktreeList("").worktrees).toEqual([])
+    expect(parseWorktreeList("42").error).not.toBeNull()
+    expect(parseWorktreeList("[null, 1, \"x\"]").worktrees).toEqual([])
+  })
+
+  test("renders a compact summary table", () => {
+    const table = formatWorktreeTable(parseWorktreeList(WT_LIST_JSON).worktrees)
+    const lines = table.split("\n")
+    expect(lines.length).toBe(3)
+    expect(lines[0]).toContain("Branch")
+    expect(lines[2]).toContain("feature-api")
+    expect(lines[2]).toContain("↑1 ↓2")
+    expect(lines[2]).toContain("passed")
+  })
+})
+
+describe("worktrunk-status tool", () => {
+  test("reports the current branch's worktree record", async () => {
+    const pluginModule = await import("../index.ts")
+    const WorkTrunkPlugin = pluginModule.default
+
+    const mockContext: Partial<PluginContext> = {
+      $: ((strings: TemplateStringsArray, ...values: any[]) => {
+        const command = strings.flatMap((s, i) => [s, values[i] || ""]).filter(Boolean).join(" ")
+        return {
+          quiet: () => {
+            if (command.includes("git") && command.includes("rev-parse")) {
+              return Promise.resolve({ stdout: Buffer.from("feature-api") })
+            }
+            return Promise.resolve({ stdout: Buffer.from(WT_LIST_JSON) })
+          },
+        }
+      }) as any,
+      client: {
+        app: {
+          log: async () => {},
+        },
+      } as any,
+      project: {} as any,
+      directory: "/repo.feature-api",
+      worktree: {} as any,
+    }
+
+    const plugin = await WorkTrunkPlugin(mockContext as PluginContext)
+    const result = await plugin.tool!["worktrunk-status"].execute({}, {} as any)
+    expect(result).toContain("Branch: feature-api")
+    expect(result).toContain("Marker: 🤖")
+    expect(result).toContain("Dirty: yes")
+    expect(result).toContain("CI: passed")
+  })
+})
@@ -0,0 +1,242 @@
+/**
+ * Typed model for `wt list --format=json` output.
+ *
+ * WorkTrunk's JSON has grown fields over time, so the parser accepts both the
+ * nested shape (`commit.sha`, `main.ahead`, `working_tree`, `ci.status`) and
+ * flat aliases (`head`, `ahead`, `dirty`, `ci_status`). It never throws:
+ * malformed input yields an empty list plus an error message.
+ */
+
+export interface RemoteTracking {
+  name: string | null
+  branch: string | null
+  ahead: number
+  behind: number
+}
+
+export interface CiInfo {
+  status: string
+  source: string | null // "pr" or "branch"
+  url: string | null
+}
+
+export interface WorktreeInfo {
+  branch: string | null
+  path: string | null // null for branches without a worktree
+  head: string | null
+  message: string | null // subject of the last commit
+  committedAt: number | null // last commit time, ms since epoch
+  ahead: number // commits ahead of the default branch
+  behind: number // commits behind the default branch
+  dirty: boolean
+  marker: string | null
+  remote: RemoteTracking | null
+  ci: CiInfo | null
+  isMain: boolean
+  isCurrent: boolean
+}
+
+export interface WorktreeListResult {
+  worktrees: WorktreeInfo[]
+  error: string | null
+}
+
+type RawRecord = Record<string, unknown>
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const str = (...values: unknown[]): string | null => {
+  for (const value of values) {
+    if (typeof value === "string" && value.trim() !== "") {
+      return value.trim()
+    }
+  }
+  return null
+}
+
+const num = (...values: unknown[]): number => {
+  for (const value of values) {
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return value
+    }
+    if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) {
+      return Number(value)
+    }
+  }
+  return 0
+}
+
+const record = (value: unknown): RawRecord => (isRecord(value) ? value : {})
+
+const parseDirty = (raw: RawRecord): boolean => {
+  if (typeof raw.dirty === "boolean") {
+    return raw.dirty
+  }
+  const workingTree = raw.working_tree
+  if (isRecord(workingTree)) {
+    const flags = ["staged", "modified", "untracked", "renamed", "deleted"]
+    if (flags.some(flag => workingTree[flag] === true)) {
+      return true
+    }
+    const diff = record(workingTree.diff)
+    return num(diff.added) > 0 || num(diff.deleted) > 0
+  }
+  return false
+}
+
+const parseRemote = (raw: RawRecord): RemoteTracking | null => {
+  const remote = raw.remote ?? raw.upstream
+  if (typeof remote === "string" && remote.trim() !== "") {
+    const [name, ...rest] = remote.trim().split("/")
+    return { name, branch: rest.join("/") || null, ahead: 0, behind: 0 }
+  }
+  if (!isRecord(remote)) {
+    return null
+  }
+  return {
+    name: str(remote.name, remote.remote),
+    branch: str(remote.branch),
+    ahead: num(remote.ahead),
+    behind: num(remote.behind),
+  }
+}
+
+const parseCi = (raw: RawRecord): CiInfo | null => {
+  const ci = raw.ci
+  if (isRecord(ci)) {
+    const status = str(ci.status)
+    return status ? { status, source: str(ci.source), url: str(ci.url) } : null
+  }
+  const status = str(ci, raw.ci_status)
+  return status ? { status, source: null, url: str(raw.ci_url) } : null
+}
+
+// Normalize one raw `wt list` entry. Returns null if it has no branch or path.
+export const parseWorktreeRecord = (raw: unknown): WorktreeInfo | null => {
+  if (!isRecord(raw)) {
+    return null
+  }
+  const commit = record(raw.commit)
+  const main = record(raw.main)
+  const worktree = record(raw.worktree)
+
+  const branch = str(raw.branch, raw.name)
+  const path = str(raw.path, worktree.path)
+  if (!branch && !path) {
+    return null
+  }
+
+  return {
+    branch,
+    path,
+    head: str(raw.head, raw.sha, commit.sha, commit.short_sha),
+    message: str(commit.message, raw.message),
+    committedAt: num(commit.timestamp, raw.timestamp) * 1000 || null, // wt reports seconds
+    ahead: num(raw.ahead, main.ahead),
+    behind: num(raw.behind, main.behind),
+    dirty: parseDirty(raw),
+    marker: str(raw.marker, raw.user_marker, raw.status_marker),
+    remote: parseRemote(raw),
+    ci: parseCi(raw),
+    isMain: raw.is_main === true || raw.main_state === "is_main",
+    isCurrent: raw.is_current === true,
+  }
+}
+
+// Parse the stdout of `wt list --format=json`
+export const parseWorktreeList = (text: string): WorktreeListResult => {
+  const trimmed = text.trim()
+  if (trimmed === "") {
+    return { worktrees: [], error: null }
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(trimmed)
+  } catch {
+    // Some versions emit one JSON object per line
+    try {
+      data = trimmed.split("\n").filter(line => line.trim() !== "").map(line => JSON.parse(line))
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error)
+      return { worktrees: [], error: `Could not parse 'wt list' JSON output: ${errorMsg}` }
+    }
+  }
+
+  const items = Array.isArray(data)
+    ? data
+    : isRecord(data) && Array.isArray(data.worktrees)
+      ? data.worktrees
+      : [data]
+
+  const worktrees: WorktreeInfo[] = []
+  for (const item of items) {
+    const info = parseWorktreeRecord(item)
+    if (info) {
+      worktrees.push(info)
+    }
+  }
+  if (worktrees.length === 0 && items.length > 0) {
+    return { worktrees, error: "'wt list' JSON output contained no worktree records" }
+  }
+  return { worktrees, error: null }
+}
+
+// "↑2 ↓3" for commits ahead and behind, "" when even
+export const formatAheadBehind = (ahead: number, behind: number): string => {
+  const parts: string[] = []
+  if (ahead > 0) parts.push(`↑${ahead}`)
+  if (behind > 0) parts.push(`↓${behind}`)
+  return parts.join(" ")
+}
+
+// Render rows under a header as columns padded to their widest cell
+export const formatTable = (header: string[], rows: string[][]): string => {
+  const widths = header.map((_, col) => Math.max(...[header, ...rows].map(row => row[col].length)))
+  return [header, ...rows]
+    .map(row => row.map((cell, col) => cell.padEnd(widths[col])).join("  ").trimEnd())
+    .join("\n")
+}
+
+// Render worktrees as a compact aligned summary table
+export const formatWorktreeTable = (worktrees: WorktreeInfo[]): string => {
+  if (worktrees.length === 0) {
+    return "No worktrees found."
+  }
+
+  const header = ["", "Branch", "Marker", "HEAD", "vs default", "Dirty", "Remote", "CI", "Path"]
+  const rows = worktrees.map(wt => [
+    wt.isCurrent ? "@" : wt.isMain ? "^" : "",
+    wt.branch ?? "(detached)",
+    wt.marker ?? "",
+    wt.head ? wt.head.slice(0, 8) : "",
+    formatAheadBehind(wt.ahead, wt.behind),
+    wt.dirty ? "yes" : "",
+    wt.remote ? formatAheadBehind(wt.remote.ahead, wt.remote.behind) || "=" : "",
+    wt.ci?.status ?? "",
+    wt.path ?? "(no worktree)",
+  ])
+
+  return formatTable(header, rows)
+}
+
+// Render a single worktree as a detailed status block
+export const formatWorktreeDetails = (wt: WorktreeInfo): string => {
+  const lines = [
+    `Branch: ${wt.branch ?? "(detached)"}`,
+    `Path: ${wt.path ?? "(no worktree)"}`,
+    `HEAD: ${wt.head ?? "unknown"}`,
+    `Marker: ${wt.marker ?? "(none)"}`,
+    `Dirty: ${wt.dirty ? "yes" : "no"}`,
+    `Vs default branch: ${formatAheadBehind(wt.ahead, wt.behind) || "up to date"}`,
+  ]
+  if (wt.remote) {
+    const upstream = [wt.remote.name, wt.remote.branch].filter(Boolean).join("/")
+    lines.push(`Remote: ${upstream || "tracked"} ${formatAheadBehind(wt.remote.ahead, wt.remote.behind) || "(in sync)"}`)
+  }
+  if (wt.ci) {
+    lines.push(`CI: ${wt.ci.status}${wt.ci.source ? ` (${wt.ci.source})` : ""}${wt.ci.url ? ` ${wt.ci.url}` : ""}`)
+  }
+  return lines.join("\n")
+}